@@ -0,0 +1,69 @@
+import { get } from 'svelte/store';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ExifData } from '../types/exif';
+import { makeFile } from '../utils/__fixtures__/photos';
+import { filesStore } from './files';
+
+function exif(fields: Partial<ExifData>): ExifData {
+  return { raw: {}, ...fields } as ExifData;
+}
+
+function photoNames(): string[][] {
+  return get(filesStore).photos.map(photo => [photo.file.name, ...(photo.companions ?? []).map(file => file.name)]);
+}
+
+describe('filesStore.setExifData', () => {
+  beforeEach(() => filesStore.clear());
+
+  it('pairs a RAW and JPEG by capture time as an undoable step', () => {
+    const capture = exif({ serialNumber: '012345', dateTaken: new Date(2024, 5, 1, 14, 5, 9) });
+    filesStore.addFiles([makeFile('IMG_0001.jpg'), makeFile('DSC_0001.CR2')]);
+    const [jpeg, raw] = get(filesStore).photos;
+
+    filesStore.setExifData(jpeg.id, capture);
+    expect(photoNames()).toEqual([['IMG_0001.jpg'], ['DSC_0001.CR2']]);
+
+    filesStore.setExifData(raw.id, capture);
+    expect(photoNames()).toEqual([['IMG_0001.jpg', 'DSC_0001.CR2']]);
+    expect(get(filesStore).photos[0].pairedBy).toBe('capture');
+
+    expect(filesStore.undo()).toBe('Pair photos');
+    expect(photoNames()).toEqual([['IMG_0001.jpg'], ['DSC_0001.CR2']]);
+
+    filesStore.redo();
+    expect(photoNames()).toEqual([['IMG_0001.jpg', 'DSC_0001.CR2']]);
+  });
+
+  it('leaves a capture time shared by more than one JPEG unpaired', () => {
+    const capture = exif({ serialNumber: '012345', dateTaken: new Date(2024, 5, 1, 14, 5, 9) });
+    filesStore.addFiles([makeFile('A.jpg'), makeFile('B.jpg'), makeFile('C.CR2')]);
+    get(filesStore).photos.forEach(photo => filesStore.setExifData(photo.id, capture));
+
+    expect(photoNames()).toEqual([['A.jpg'], ['B.jpg'], ['C.CR2']]);
+    expect(get(filesStore.history).past.slice(-1).map(step => step.label)).toEqual(['Add photos']);
+  });
+});
+
+describe('filesStore history', () => {
+  beforeEach(() => filesStore.clear());
+
+  it('keeps the last 50 steps and walks them back and forth', () => {
+    for (let i = 1; i <= 60; i++) filesStore.addFiles([makeFile(`IMG_${i}.jpg`)]);
+    const count = () => get(filesStore).photos.length;
+
+    expect(get(filesStore.history).past).toHaveLength(50);
+
+    for (let i = 0; i < 50; i++) expect(filesStore.undo()).toBe('Add photo');
+    expect(filesStore.undo()).toBeNull();
+    expect(count()).toBe(10);
+
+    for (let i = 0; i < 50; i++) filesStore.redo();
+    expect(filesStore.redo()).toBeNull();
+    expect(count()).toBe(60);
+
+    filesStore.undo();
+    filesStore.removePhoto(get(filesStore).photos[0].id);
+    expect(get(filesStore.history).future).toEqual([]);
+    expect(count()).toBe(58);
+  });
+});
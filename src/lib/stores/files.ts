@@ -1,8 +1,12 @@
 import { writable, derived, get, type Writable } from 'svelte/store';
-import type { Photo, PhotoBatch, PhotoFilter, PhotoSort, PhotoStats } from '../types/photo';
+import type { PairMatch, Photo, PhotoBatch, PhotoFilter, PhotoSort, PhotoStats } from '../types/photo';
 import type { ValidationResult } from '../utils/validators';
-import type { ExifData } from '../types/exif';
-import type { RenameResult } from '../types/template';
+import type { CameraClockOffset, ExifData } from '../types/exif';
+import { applyClockOffset } from '../utils/exif';
+import type { NameOverride, RenameConflict, RenameResult, RenameSortOrder } from '../types/template';
+import { sortForRenaming } from '../utils/ordering';
+import { pairPhoto, pairPhotos } from '../utils/pairing';
+import { attachSidecars, isSidecarFile, type OrphanSidecar } from '../utils/sidecars';
 
 interface FilesState {
   photos: Photo[];
@@ -11,59 +15,139 @@ interface FilesState {
   isProcessing: boolean;
   filter: PhotoFilter | null;
   sortBy: PhotoSort | null;
+  clockOffsets: CameraClockOffset[];
+  renameOrder: RenameSortOrder;
+  conflicts: RenameConflict[];
+  orphanSidecars: OrphanSidecar[]; // Sidecars whose photo has not been added
 }
 
+// Parts of the state that undo and redo bring back
+type HistorySnapshot = Pick<
+  FilesState,
+  'photos' | 'selectedIds' | 'sortBy' | 'clockOffsets' | 'renameOrder' | 'orphanSidecars'
+>;
+
+interface HistoryStep {
+  label: string; // Describes the change, e.g. "Remove photo"
+  timestamp: Date;
+  snapshot: HistorySnapshot; // State on the other side of the change
+}
+
+interface FilesHistory {
+  past: HistoryStep[];
+  future: HistoryStep[];
+}
+
+// A photo brought back from a saved session, with the state it was saved in
+export interface RestoredPhoto {
+  id: string;
+  file: File;
+  companions?: File[];
+  pairedBy?: PairMatch;
+  sidecars?: File[];
+  relativePath?: string;
+  exif: ExifData | null;
+  selected: boolean;
+  variables?: Record<string, string>;
+  nameOverride?: NameOverride;
+}
+
+export interface RestoredSession {
+  photos: RestoredPhoto[];
+  sortBy: PhotoSort | null;
+  clockOffsets: CameraClockOffset[];
+  renameOrder: RenameSortOrder;
+}
+
+// Photos are shared between snapshots, so each step costs little beyond its arrays
+const MAX_HISTORY = 50;
+
 const initialState: FilesState = {
   photos: [],
   selectedIds: new Set(),
   currentBatch: null,
   isProcessing: false,
   filter: null,
-  sortBy: null
+  sortBy: null,
+  clockOffsets: [],
+  renameOrder: 'added',
+  conflicts: [],
+  orphanSidecars: []
 };
 
 function createFilesStore() {
-  const { subscribe, set, update }: Writable<FilesState> = writable(initialState);
+  const { subscribe, update }: Writable<FilesState> = writable(initialState);
+  const history = writable<FilesHistory>({ past: [], future: [] });
+
+  // Applies an undoable change; the state before it becomes one undo step
+  const record = (label: string, change: (state: FilesState) => FilesState) => {
+    update(state => {
+      const next = change(state);
+      if (next === state) return state;
+
+      history.update(({ past }) => ({
+        past: [...past, { label, timestamp: new Date(), snapshot: takeSnapshot(state) }].slice(-MAX_HISTORY),
+        future: []
+      }));
+      return next;
+    });
+  };
+
+  // Moves one step back (undo) or forward (redo), saving the current state on the other stack
+  const travel = (direction: 'undo' | 'redo'): string | null => {
+    const { past, future } = get(history);
+    const from = direction === 'undo' ? past : future;
+    const step = from[from.length - 1];
+    if (!step) return null;
+
+    update(state => {
+      const current: HistoryStep = { ...step, timestamp: new Date(), snapshot: takeSnapshot(state) };
+      history.set(direction === 'undo'
+        ? { past: past.slice(0, -1), future: [...future, current] }
+        : { past: [...past, current], future: future.slice(0, -1) });
+
+      return restoreSnapshot(state, step.snapshot);
+    });
+
+    return step.label;
+  };
 
   return {
     subscribe,
+    history: { subscribe: history.subscribe },
+
+    undo: () => travel('undo'),
+
+    redo: () => travel('redo'),
 
     
-    addFiles: (files: File[]) => {
-      update(state => {
-        const newPhotos: Photo[] = files.map((file, index) => ({
-          id: generateId(),
-          file,
-          metadata: {
-            fileName: file.name,
-            originalFileName: file.name,
-            fileSize: file.size,
-            fileType: file.type,
-            lastModified: new Date(file.lastModified),
-            exif: null,
-            hasExif: false,
-            hasGPS: false,
-            uploadedAt: new Date()
-          },
-          status: 'pending',
-          validation: null,
-          isValid: false,
-          renameResult: null,
-          warnings: [],
-          selected: false,
-          index: state.photos.length + index
-        }));
+    // Files from a dropped folder come with their path inside it
+    // RAW+JPEG pairs with the same name become one photo straight away, and sidecars
+    // join their photo; those without one wait in case it is added later
+    addFiles: (files: File[], relativePaths?: Map<File, string>) => {
+      record(files.length === 1 ? 'Add photo' : 'Add photos', state => {
+        const images = files.filter(file => !isSidecarFile(file));
+        const sidecars = files
+          .filter(file => isSidecarFile(file))
+          .map(file => ({ file, relativePath: relativePaths?.get(file) }));
+        const newPhotos = images.map((file, index) =>
+          createPhoto(generateId(), file, state.photos.length + index, relativePaths?.get(file))
+        );
 
-        return {
-          ...state,
-          photos: [...state.photos, ...newPhotos]
-        };
+        const paired = withPairs(state, pairPhotos([...state.photos, ...newPhotos]));
+        const { photos, orphans } = attachSidecars(paired.photos, [...state.orphanSidecars, ...sidecars]);
+
+        return { ...paired, photos, orphanSidecars: orphans };
       });
     },
 
+    dismissOrphanSidecars: () => {
+      record('Dismiss sidecars', state => ({ ...state, orphanSidecars: [] }));
+    },
+
     
     removePhoto: (id: string) => {
-      update(state => {
+      record('Remove photo', state => {
         const photos = state.photos.filter(p => p.id !== id);
         const selectedIds = new Set(state.selectedIds);
         selectedIds.delete(id);
@@ -78,7 +162,7 @@ function createFilesStore() {
 
     
     removePhotos: (ids: string[]) => {
-      update(state => {
+      record('Remove photos', state => {
         const idSet = new Set(ids);
         const photos = state.photos.filter(p => !idSet.has(p.id));
         const selectedIds = new Set(
@@ -94,7 +178,33 @@ function createFilesStore() {
     },
     
     clear: () => {
-      set(initialState);
+      record('Clear all', () => initialState);
+    },
+
+    // Replaces everything with a saved session; its history starts over
+    restoreSession: (session: RestoredSession) => {
+      const photos = session.photos.map((restored, index) => {
+        const photo = {
+          ...createPhoto(restored.id, restored.file, index, restored.relativePath),
+          companions: restored.companions,
+          pairedBy: restored.pairedBy,
+          sidecars: restored.sidecars,
+          selected: restored.selected,
+          variables: restored.variables,
+          nameOverride: restored.nameOverride
+        };
+        return restored.exif ? withExifData(photo, restored.exif, session.clockOffsets) : photo;
+      });
+
+      update(() => ({
+        ...initialState,
+        photos: session.sortBy ? sortPhotos(photos, session.sortBy) : photos,
+        selectedIds: new Set(photos.filter(p => p.selected).map(p => p.id)),
+        sortBy: session.sortBy,
+        clockOffsets: session.clockOffsets,
+        renameOrder: session.renameOrder
+      }));
+      history.set({ past: [], future: [] });
     },
 
     
@@ -136,42 +246,74 @@ function createFilesStore() {
       }));
     },
     
+    // Capture time, serial number and the Live Photo id can pair files whose names differ;
+    // a pair found that way is an undo step of its own
     setExifData: (id: string, exifData: ExifData | null) => {
       update(state => ({
+        ...state,
+        photos: state.photos.map(photo =>
+          photo.id === id ? withExifData(photo, exifData, state.clockOffsets) : photo
+        )
+      }));
+      record('Pair photos', state => {
+        const photos = pairPhoto(state.photos, id);
+        return photos === state.photos ? state : withPairs(state, photos);
+      });
+    },
+
+    
+    setClockOffsets: (clockOffsets: CameraClockOffset[]) => {
+      record('Change clock offsets', state => {
+        const photos = state.photos.map(photo =>
+          photo.metadata.exif ? withExifData(photo, photo.metadata.exif, clockOffsets) : photo
+        );
+
+        return {
+          ...state,
+          clockOffsets,
+          photos: state.sortBy ? sortPhotos(photos, state.sortBy) : photos
+        };
+      });
+    },
+
+    // An empty or null value removes the override so the batch value applies again
+    setPhotoVariable: (ids: string[], name: string, value: string | null) => {
+      const targets = new Set(ids);
+
+      record('Change variable', state => ({
         ...state,
         photos: state.photos.map(photo => {
-          if (photo.id === id) {
-            const hasExif = exifData !== null;
-            const hasGPS = exifData?.gps !== null && exifData?.gps !== undefined;
+          if (!targets.has(photo.id)) return photo;
 
-            return {
-              ...photo,
-              metadata: {
-                ...photo.metadata,
-                exif: exifData,
-                hasExif,
-                hasGPS,
-                dateTaken: exifData?.dateTaken || undefined,
-                cameraMake: exifData?.make || undefined,
-                cameraModel: exifData?.model || undefined,
-                lensModel: exifData?.lensModel || undefined,
-                iso: exifData?.iso || undefined,
-                aperture: exifData?.fNumber || undefined,
-                shutterSpeed: exifData?.exposureTime || undefined,
-                focalLength: exifData?.focalLength || undefined,
-                latitude: exifData?.gps?.lat || undefined,
-                longitude: exifData?.gps?.lng || undefined,
-                altitude: exifData?.gps?.altitude || undefined,
-                width: exifData?.width || undefined,
-                height: exifData?.height || undefined
-              }
-            };
-          }
-          return photo;
+          const variables = { ...photo.variables };
+          if (value) variables[name] = value;
+          else delete variables[name];
+
+          return { ...photo, variables: Object.keys(variables).length > 0 ? variables : undefined };
         })
       }));
     },
 
+    setNameOverride: (id: string, nameOverride: NameOverride | null) => {
+      record('Change name override', state => ({
+        ...state,
+        photos: state.photos.map(photo =>
+          photo.id === id ? { ...photo, nameOverride: nameOverride ?? undefined } : photo
+        )
+      }));
+    },
+
+    mergePhotoVariables: (values: Map<string, Record<string, string>>) => {
+      record('Import variables', state => ({
+        ...state,
+        photos: state.photos.map(photo =>
+          values.has(photo.id)
+            ? { ...photo, variables: { ...photo.variables, ...values.get(photo.id) } }
+            : photo
+        )
+      }));
+    },
+
     setBatchRenameResults: (results: Map<string, RenameResult>) => {
       update(state => ({
         ...state,
@@ -192,8 +334,25 @@ function createFilesStore() {
     },
 
     
+    setRenamePreviews: (results: Map<string, RenameResult>, conflicts: RenameConflict[] = []) => {
+      update(state => ({
+        ...state,
+        conflicts,
+        photos: state.photos.map(photo => {
+          const result = results.get(photo.id);
+          return {
+            ...photo,
+            renameResult: result ?? null,
+            newFileName: result?.filename,
+            warnings: result?.warnings || []
+          };
+        })
+      }));
+    },
+
+    
     toggleSelection: (id: string) => {
-      update(state => {
+      record('Change selection', state => {
         const selectedIds = new Set(state.selectedIds);
         const photos = state.photos.map(photo => {
           if (photo.id === id) {
@@ -214,7 +373,7 @@ function createFilesStore() {
 
     
     selectAll: () => {
-      update(state => {
+      record('Select all', state => {
         const selectedIds = new Set(state.photos.map(p => p.id));
         const photos = state.photos.map(photo => ({ ...photo, selected: true }));
 
@@ -224,7 +383,7 @@ function createFilesStore() {
 
     
     deselectAll: () => {
-      update(state => ({
+      record('Deselect all', state => ({
         ...state,
         photos: state.photos.map(photo => ({ ...photo, selected: false })),
         selectedIds: new Set()
@@ -233,7 +392,7 @@ function createFilesStore() {
 
     
     selectByFilter: (filter: PhotoFilter) => {
-      update(state => {
+      record('Change selection', state => {
         const selectedIds = new Set<string>();
         const photos = state.photos.map(photo => {
           const matches = matchesFilter(photo, filter);
@@ -254,27 +413,23 @@ function createFilesStore() {
 
     
     setSortBy: (sortBy: PhotoSort | null) => {
-      update(state => {
+      record('Sort photos', state => {
         if (!sortBy) {
           return { ...state, sortBy: null };
         }
 
-        const photos = [...state.photos].sort((a, b) => {
-          const aVal = getPhotoValue(a, sortBy.field);
-          const bVal = getPhotoValue(b, sortBy.field);
-
-          if (aVal === null || aVal === undefined) return 1;
-          if (bVal === null || bVal === undefined) return -1;
-
-          const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-          return sortBy.direction === 'asc' ? comparison : -comparison;
-        });
+        const photos = sortPhotos(state.photos, sortBy);
 
         return { ...state, photos, sortBy };
       });
     },
 
     
+    setRenameOrder: (renameOrder: RenameSortOrder) => {
+      record('Change numbering order', state => ({ ...state, renameOrder }));
+    },
+
+    
     setProcessing: (isProcessing: boolean) => {
       update(state => ({ ...state, isProcessing }));
     },
@@ -383,6 +538,86 @@ function createFilesStore() {
   };
 }
 
+function takeSnapshot({
+  photos,
+  selectedIds,
+  sortBy,
+  clockOffsets,
+  renameOrder,
+  orphanSidecars
+}: FilesState): HistorySnapshot {
+  return { photos, selectedIds, sortBy, clockOffsets, renameOrder, orphanSidecars };
+}
+
+/**
+ * Bring back the photos, order and selection of a snapshot
+ * Photos that still exist keep their latest EXIF and previews, since those
+ * may have finished loading after the snapshot was taken
+ */
+function restoreSnapshot(state: FilesState, snapshot: HistorySnapshot): FilesState {
+  const live = new Map(state.photos.map(photo => [photo.id, photo]));
+
+  const photos = snapshot.photos.map(photo => {
+    const current = live.get(photo.id);
+    if (!current) return photo;
+
+    return {
+      ...current,
+      companions: photo.companions,
+      pairedBy: photo.pairedBy,
+      sidecars: photo.sidecars,
+      selected: photo.selected,
+      nameOverride: photo.nameOverride,
+      variables: photo.variables
+    };
+  });
+
+  // EXIF dates carry the offsets they were corrected with, so reapply the restored ones
+  const corrected = snapshot.clockOffsets === state.clockOffsets
+    ? photos
+    : photos.map(photo =>
+      photo.metadata.exif ? withExifData(photo, photo.metadata.exif, snapshot.clockOffsets) : photo
+    );
+
+  return { ...state, ...snapshot, photos: corrected };
+}
+
+// A RAW folded into its partner leaves the selection along with the list
+function withPairs(state: FilesState, photos: Photo[]): FilesState {
+  const ids = new Set(photos.map(photo => photo.id));
+  return {
+    ...state,
+    photos,
+    selectedIds: new Set(Array.from(state.selectedIds).filter(id => ids.has(id)))
+  };
+}
+
+function createPhoto(id: string, file: File, index: number, relativePath?: string): Photo {
+  return {
+    id,
+    file,
+    metadata: {
+      fileName: file.name,
+      originalFileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      lastModified: new Date(file.lastModified),
+      relativePath,
+      exif: null,
+      hasExif: false,
+      hasGPS: false,
+      uploadedAt: new Date()
+    },
+    status: 'pending',
+    validation: null,
+    isValid: false,
+    renameResult: null,
+    warnings: [],
+    selected: false,
+    index
+  };
+}
+
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -429,6 +664,51 @@ function matchesFilter(photo: Photo, filter: PhotoFilter): boolean {
   return true;
 }
 
+// Capture times are shifted by the camera clock offsets before anything reads them
+function withExifData(
+  photo: Photo,
+  exifData: ExifData | null,
+  clockOffsets: CameraClockOffset[]
+): Photo {
+  const exif = exifData ? applyClockOffset(exifData, clockOffsets) : null;
+
+  return {
+    ...photo,
+    metadata: {
+      ...photo.metadata,
+      exif,
+      hasExif: exif !== null,
+      hasGPS: exif?.gps !== null && exif?.gps !== undefined,
+      dateTaken: exif?.dateTaken || undefined,
+      cameraMake: exif?.make || undefined,
+      cameraModel: exif?.model || undefined,
+      lensModel: exif?.lensModel || undefined,
+      iso: exif?.iso || undefined,
+      aperture: exif?.fNumber || undefined,
+      shutterSpeed: exif?.exposureTime || undefined,
+      focalLength: exif?.focalLength || undefined,
+      latitude: exif?.gps?.lat || undefined,
+      longitude: exif?.gps?.lng || undefined,
+      altitude: exif?.gps?.altitude || undefined,
+      width: exif?.width || undefined,
+      height: exif?.height || undefined
+    }
+  };
+}
+
+function sortPhotos(photos: Photo[], sortBy: PhotoSort): Photo[] {
+  return [...photos].sort((a, b) => {
+    const aVal = getPhotoValue(a, sortBy.field);
+    const bVal = getPhotoValue(b, sortBy.field);
+
+    if (aVal === null || aVal === undefined) return 1;
+    if (bVal === null || bVal === undefined) return -1;
+
+    const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
+    return sortBy.direction === 'asc' ? comparison : -comparison;
+  });
+}
+
 function getPhotoValue(photo: Photo, field: string): any {
   if (field === 'fileName') return photo.metadata.fileName;
   if (field === 'fileSize') return photo.metadata.fileSize;
@@ -439,6 +719,23 @@ function getPhotoValue(photo: Photo, field: string): any {
 
 export const filesStore = createFilesStore();
 
+export const filesHistory = derived(filesStore.history, ({ past, future }) => ({
+  canUndo: past.length > 0,
+  canRedo: future.length > 0,
+  undoLabel: past[past.length - 1]?.label ?? null,
+  redoLabel: future[future.length - 1]?.label ?? null
+}));
+
+// Photos in the order counters are assigned, shared by the file list and the rename pipeline
+export const orderedPhotos = derived(
+  filesStore,
+  $files => sortForRenaming($files.photos, $files.renameOrder, photo => ({
+    name: photo.metadata.originalFileName,
+    lastModified: photo.file.lastModified,
+    exifData: photo.metadata.exif
+  }))
+);
+
 export const totalFiles = derived(
   filesStore,
   $files => $files.photos.length
@@ -2,11 +2,17 @@ import { writable } from 'svelte/store';
 
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
 export interface Notification {
   id: string;
   type: NotificationType;
   message: string;
   duration?: number;
+  action?: NotificationAction; // Button shown in the toast, e.g. "Undo"
 }
 
 function createNotificationStore() {
@@ -14,9 +20,9 @@ function createNotificationStore() {
 
   return {
     subscribe,
-    show: (type: NotificationType, message: string, duration = 4000) => {
+    show: (type: NotificationType, message: string, duration = 4000, action?: NotificationAction) => {
       const id = Math.random().toString(36).substr(2, 9);
-      const notification: Notification = { id, type, message, duration };
+      const notification: Notification = { id, type, message, duration, action };
 
       update(notifications => [...notifications, notification]);
 
@@ -0,0 +1,551 @@
+import { writable, get } from 'svelte/store';
+import type { PairMatch, Photo, PhotoSort } from '../types/photo';
+import type { CameraClockOffset, ExifData } from '../types/exif';
+import type {
+  NameOverride,
+  RenameOptions,
+  RenameSortOrder,
+  ReplaceRule,
+  TemplateRule,
+  TokenSpecificOptions
+} from '../types/template';
+import type { PermissionedFileHandle } from '../types/filesystem';
+import type { RestoredPhoto, RestoredSession } from './files';
+
+const DB_NAME = 'photorenamer';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const FILES_STORE = 'files';
+const ACTIVE_SESSION_KEY = 'photorenamer.activeSession';
+const SAVE_DELAY_MS = 1500;
+
+// Copies of files count against the browser's storage quota, so each session
+// keeps at most this much; files opened through a handle are free to keep
+export const MAX_STORED_BYTES = 1024 * 1024 * 1024;
+
+// Template and options from the page, saved with the photos
+export interface SessionSettings {
+  template: string;
+  renameMode: 'template' | 'replace';
+  chainTemplate: boolean;
+  replaceRules: ReplaceRule[];
+  templateRules: TemplateRule[];
+  variables: Record<string, string>;
+  originalPattern: string;
+  dateOptions: NonNullable<TokenSpecificOptions['date']>;
+  conflictOptions: Pick<RenameOptions, 'conflictResolution' | 'conflictSuffix' | 'caseSensitiveConflicts'>;
+}
+
+// The parts of the files store a session keeps
+export interface SessionFiles {
+  photos: Photo[];
+  sortBy: PhotoSort | null;
+  clockOffsets: CameraClockOffset[];
+  renameOrder: RenameSortOrder;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  photoCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OpenedSession {
+  files: RestoredSession;
+  settings: SessionSettings | null;
+  needsPermission: number; // Photos whose files wait for the user to allow access again
+  missing: string[]; // Names of photos whose files could not be kept or found
+}
+
+type FileSource = 'handle' | 'blob' | 'none';
+
+interface SavedPhoto {
+  id: string;
+  companionOf?: string; // Id of the photo this RAW or JPEG half belongs to
+  sidecarOf?: string; // Id of the photo this .xmp, .aae, .thm or .wav file belongs to
+  pairedBy?: PairMatch;
+  name: string;
+  relativePath?: string;
+  size: number;
+  exif: ExifData | null;
+  selected: boolean;
+  variables?: Record<string, string>;
+  nameOverride?: NameOverride;
+  source: FileSource; // Where the file itself comes back from
+}
+
+interface SavedSession extends SessionSummary {
+  photos: SavedPhoto[];
+  sortBy: PhotoSort | null;
+  clockOffsets: CameraClockOffset[];
+  renameOrder: RenameSortOrder;
+  settings: SessionSettings | null;
+}
+
+interface StoredFile {
+  key: string; // "<session id>/<photo id>"
+  sessionId: string;
+  handle?: FileSystemFileHandle;
+  blob?: File;
+}
+
+// What the open session has written so far, so saves only add what is new
+interface ActiveSession {
+  id: string;
+  name: string;
+  createdAt: Date;
+  sources: Map<string, SavedPhoto>;
+  pending: SavedPhoto[]; // Kept in the session until access to their files is allowed
+}
+
+interface SessionState {
+  supported: boolean;
+  sessions: SessionSummary[];
+  activeId: string | null;
+  activeName: string | null;
+  status: 'idle' | 'saving' | 'saved' | 'error';
+  savedAt: Date | null;
+}
+
+// Files picked through the File System Access API, which can be reopened later
+const fileHandles = new WeakMap<File, FileSystemFileHandle>();
+
+export function rememberFileHandle(file: File, handle: FileSystemFileHandle) {
+  fileHandles.set(file, handle);
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      db.createObjectStore(FILES_STORE, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  return database;
+}
+
+/**
+ * Run work in one transaction and resolve once it has committed
+ * Requests made by the work have their results ready by then
+ */
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => T
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    let result: T;
+
+    try {
+      result = work(transaction);
+    } catch (error) {
+      // e.g. a DataCloneError; nothing half-written should commit
+      transaction.abort();
+      reject(error);
+      return;
+    }
+
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function fileKey(sessionId: string, photoId: string): string {
+  return `${sessionId}/${photoId}`;
+}
+
+// Companions and sidecars are keyed by the file itself, so a stored file is never restored for a different one
+function attachmentId(photoId: string, file: File): string {
+  return `${photoId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function toSummary({ id, name, photoCount, createdAt, updatedAt }: SavedSession): SessionSummary {
+  return { id, name, photoCount, createdAt, updatedAt };
+}
+
+function defaultSessionName(): string {
+  return `Session ${new Date().toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+function loadActiveId(): string | null {
+  try {
+    if (typeof window === 'undefined' || typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(ACTIVE_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function persistActiveId(id: string | null) {
+  try {
+    if (typeof window === 'undefined' || typeof localStorage === 'undefined') return;
+    if (id) localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    else localStorage.removeItem(ACTIVE_SESSION_KEY);
+  } catch {}
+}
+
+// Handles need permission again after a reload; only a click may ask for it
+async function readFile(stored: StoredFile | undefined, interactive: boolean): Promise<File | 'denied' | null> {
+  if (stored?.blob) return stored.blob;
+  if (!stored?.handle) return null;
+
+  const handle = stored.handle as PermissionedFileHandle;
+  let permission = (await handle.queryPermission?.({ mode: 'read' })) ?? 'granted';
+  if (permission === 'prompt' && interactive && handle.requestPermission) {
+    permission = await handle.requestPermission({ mode: 'read' });
+  }
+  if (permission !== 'granted') return 'denied';
+
+  try {
+    return await handle.getFile();
+  } catch {
+    return null; // Moved or deleted since
+  }
+}
+
+function createSessionStore() {
+  const { subscribe, update } = writable<SessionState>({
+    supported: typeof indexedDB !== 'undefined',
+    sessions: [],
+    activeId: null,
+    activeName: null,
+    status: 'idle',
+    savedAt: null
+  });
+
+  let active: ActiveSession | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let queued: { files: SessionFiles; settings: SessionSettings } | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const refresh = async () => {
+    const request = await transact([SESSIONS_STORE], 'readonly', transaction =>
+      transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SavedSession[]>
+    );
+    const sessions = request.result
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+    update(state => ({ ...state, sessions }));
+    return sessions;
+  };
+
+  const activate = (session: ActiveSession | null) => {
+    active = session;
+    persistActiveId(session?.id ?? null);
+    update(state => ({
+      ...state,
+      activeId: session?.id ?? null,
+      activeName: session?.name ?? null,
+      status: 'idle',
+      savedAt: null
+    }));
+  };
+
+  const write = async (files: SessionFiles, settings: SessionSettings) => {
+    const session = active ?? {
+      id: `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: defaultSessionName(),
+      createdAt: new Date(),
+      sources: new Map<string, SavedPhoto>(),
+      pending: []
+    };
+    if (!active) activate(session);
+
+    let storedBytes = Array.from(session.sources.values())
+      .filter(saved => saved.source === 'blob')
+      .reduce((total, saved) => total + saved.size, 0);
+
+    const added: StoredFile[] = [];
+    const saveFile = (id: string, file: File): FileSource => {
+      let source = session.sources.get(id)?.source;
+
+      if (!source) {
+        const handle = fileHandles.get(file);
+        source = handle ? 'handle' : storedBytes + file.size <= MAX_STORED_BYTES ? 'blob' : 'none';
+        if (source === 'blob') storedBytes += file.size;
+        if (source !== 'none') {
+          added.push({
+            key: fileKey(session.id, id),
+            sessionId: session.id,
+            ...(handle ? { handle } : { blob: file })
+          });
+        }
+      }
+
+      return source;
+    };
+
+    const photos = files.photos.flatMap((photo): SavedPhoto[] => [
+      {
+        id: photo.id,
+        pairedBy: photo.pairedBy,
+        name: photo.metadata.originalFileName,
+        relativePath: photo.metadata.relativePath,
+        size: photo.file.size,
+        exif: photo.metadata.exif,
+        selected: photo.selected,
+        variables: photo.variables,
+        nameOverride: photo.nameOverride,
+        source: saveFile(photo.id, photo.file)
+      },
+      // Companions are stored as files of their own and rejoin the photo when it is opened
+      ...(photo.companions ?? []).map((companion): SavedPhoto => {
+        const id = attachmentId(photo.id, companion);
+        return {
+          id,
+          companionOf: photo.id,
+          name: companion.name,
+          size: companion.size,
+          exif: null,
+          selected: false,
+          source: saveFile(id, companion)
+        };
+      }),
+      ...(photo.sidecars ?? []).map((sidecar): SavedPhoto => {
+        const id = attachmentId(photo.id, sidecar);
+        return {
+          id,
+          sidecarOf: photo.id,
+          name: sidecar.name,
+          size: sidecar.size,
+          exif: null,
+          selected: false,
+          source: saveFile(id, sidecar)
+        };
+      })
+    ]);
+
+    const kept = [...photos, ...session.pending];
+    const keptIds = new Set(kept.map(saved => saved.id));
+    const removed = Array.from(session.sources.keys()).filter(id => !keptIds.has(id));
+
+    const record: SavedSession = {
+      id: session.id,
+      name: session.name,
+      photoCount: kept.filter(saved => !saved.companionOf && !saved.sidecarOf).length,
+      createdAt: session.createdAt,
+      updatedAt: new Date(),
+      photos: kept,
+      sortBy: files.sortBy,
+      clockOffsets: files.clockOffsets,
+      renameOrder: files.renameOrder,
+      settings
+    };
+
+    await transact([SESSIONS_STORE, FILES_STORE], 'readwrite', transaction => {
+      transaction.objectStore(SESSIONS_STORE).put(record);
+      const fileStore = transaction.objectStore(FILES_STORE);
+      added.forEach(stored => fileStore.put(stored));
+      removed.forEach(id => fileStore.delete(fileKey(session.id, id)));
+    });
+
+    // The session may have been switched while this was writing
+    if (active?.id === session.id) {
+      session.sources = new Map(kept.map(saved => [saved.id, saved]));
+    }
+    update(state => ({
+      ...state,
+      sessions: [toSummary(record), ...state.sessions.filter(s => s.id !== record.id)]
+    }));
+  };
+
+  const flush = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+
+    const next = queued;
+    queued = null;
+    if (!next) return saving;
+
+    update(state => ({ ...state, status: 'saving' }));
+    saving = saving
+      .then(() => write(next.files, next.settings))
+      .then(() => update(state => ({ ...state, status: 'saved', savedAt: new Date() })))
+      .catch(error => {
+        console.error('Failed to save session:', error);
+        update(state => ({ ...state, status: 'error' }));
+      });
+
+    return saving;
+  };
+
+  return {
+    subscribe,
+
+    // Lists saved sessions and returns the one that was open before the reload
+    async init(): Promise<string | null> {
+      if (!get({ subscribe }).supported) return null;
+
+      try {
+        const sessions = await refresh();
+        const activeId = loadActiveId();
+        return sessions.some(s => s.id === activeId) ? activeId : null;
+      } catch (error) {
+        console.error('Failed to read saved sessions:', error);
+        update(state => ({ ...state, supported: false }));
+        return null;
+      }
+    },
+
+    // Saves a moment after the last change; the first save creates a session
+    scheduleSave(files: SessionFiles, settings: SessionSettings) {
+      if (!get({ subscribe }).supported) return;
+      if (!active && files.photos.length === 0) return;
+
+      queued = { files, settings };
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+    },
+
+    saveNow: () => flush(),
+
+    /**
+     * Load a saved session and make it the one that changes are saved to
+     * Pass interactive from a click so the browser may ask for file access
+     */
+    async open(id: string, interactive = false): Promise<OpenedSession | null> {
+      await flush();
+
+      const [sessionRequest, filesRequest] = await transact(
+        [SESSIONS_STORE, FILES_STORE],
+        'readonly',
+        transaction => [
+          transaction.objectStore(SESSIONS_STORE).get(id) as IDBRequest<SavedSession | undefined>,
+          transaction.objectStore(FILES_STORE).index('sessionId').getAll(id) as IDBRequest<StoredFile[]>
+        ] as const
+      );
+
+      const record = sessionRequest.result;
+      if (!record) return null;
+
+      const storedFiles = new Map(filesRequest.result.map(stored => [stored.key, stored]));
+      const restored: RestoredPhoto[] = [];
+      const pending: SavedPhoto[] = [];
+      const missing: string[] = [];
+
+      for (const saved of record.photos) {
+        const file = await readFile(storedFiles.get(fileKey(id, saved.id)), interactive);
+
+        if (file === 'denied') {
+          pending.push(saved);
+        } else if (file) {
+          if (saved.source === 'handle') {
+            rememberFileHandle(file, storedFiles.get(fileKey(id, saved.id))!.handle!);
+          }
+
+          // Without its photo a companion comes back as a photo of its own, and a sidecar not at all
+          const owner = restored.find(photo => photo.id === (saved.companionOf ?? saved.sidecarOf));
+          if (owner && saved.companionOf) {
+            owner.companions = [...(owner.companions ?? []), file];
+            continue;
+          }
+          if (saved.sidecarOf) {
+            if (owner) owner.sidecars = [...(owner.sidecars ?? []), file];
+            continue;
+          }
+
+          restored.push({
+            id: saved.id,
+            file,
+            pairedBy: saved.pairedBy,
+            relativePath: saved.relativePath,
+            exif: saved.exif,
+            selected: saved.selected,
+            variables: saved.variables,
+            nameOverride: saved.nameOverride
+          });
+        } else {
+          missing.push(saved.name);
+        }
+      }
+
+      const keptIds = new Set([...restored, ...pending].map(photo => photo.id));
+      activate({
+        id,
+        name: record.name,
+        createdAt: record.createdAt,
+        // Missing photos are left out, so the next save drops whatever was stored for them
+        sources: new Map(record.photos.filter(saved => keptIds.has(saved.id)).map(saved => [saved.id, saved])),
+        pending
+      });
+
+      return {
+        files: {
+          photos: restored,
+          sortBy: record.sortBy,
+          clockOffsets: record.clockOffsets,
+          renameOrder: record.renameOrder
+        },
+        settings: record.settings,
+        needsPermission: pending.length,
+        missing
+      };
+    },
+
+    // Starts an empty session; it is written on the first save
+    async create(name = defaultSessionName()) {
+      await flush();
+      activate({
+        id: `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: name.trim() || defaultSessionName(),
+        createdAt: new Date(),
+        sources: new Map(),
+        pending: []
+      });
+    },
+
+    async rename(id: string, name: string) {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      if (active?.id === id) active.name = trimmed;
+
+      const request = await transact([SESSIONS_STORE], 'readonly', transaction =>
+        transaction.objectStore(SESSIONS_STORE).get(id) as IDBRequest<SavedSession | undefined>
+      );
+      if (request.result) {
+        await transact([SESSIONS_STORE], 'readwrite', transaction => {
+          transaction.objectStore(SESSIONS_STORE).put({ ...request.result, name: trimmed });
+        });
+      }
+
+      update(state => ({
+        ...state,
+        activeName: state.activeId === id ? trimmed : state.activeName,
+        sessions: state.sessions.map(s => (s.id === id ? { ...s, name: trimmed } : s))
+      }));
+    },
+
+    async remove(id: string) {
+      if (active?.id === id) {
+        queued = null;
+        await flush();
+        activate(null);
+      }
+
+      await transact([SESSIONS_STORE, FILES_STORE], 'readwrite', transaction => {
+        transaction.objectStore(SESSIONS_STORE).delete(id);
+        const keys = transaction.objectStore(FILES_STORE).index('sessionId').getAllKeys(id);
+        keys.onsuccess = () => keys.result.forEach(key => transaction.objectStore(FILES_STORE).delete(key));
+      });
+
+      update(state => ({ ...state, sessions: state.sessions.filter(s => s.id !== id) }));
+    }
+  };
+}
+
+export const sessionStore = createSessionStore();
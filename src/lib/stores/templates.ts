@@ -1,9 +1,10 @@
 import { writable, derived, get } from 'svelte/store';
-import type { TemplatePreset, TemplateCategory } from '../types/template';
+import type { TemplatePreset, TemplateCategory, TemplateRule, TemplateRuleSet } from '../types/template';
 import { validateTemplate } from '../utils/rename';
 
 const STORAGE_KEY = 'photorenamer.userTemplates';
 const FAVORITES_KEY = 'photorenamer.favoriteTemplates';
+const RULE_SETS_KEY = 'photorenamer.ruleSets';
 
 function safeLocalStorage(action: () => void) {
   try {
@@ -68,10 +69,28 @@ function persistFavorites(fav: string[]) {
   });
 }
 
+function loadRuleSets(): TemplateRuleSet[] {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') return [];
+  try {
+    const data = localStorage.getItem(RULE_SETS_KEY);
+    if (!data) return [];
+    return JSON.parse(data);
+  } catch {
+    return [];
+  }
+}
+
+function persistRuleSets(ruleSets: TemplateRuleSet[]) {
+  safeLocalStorage(() => {
+    localStorage.setItem(RULE_SETS_KEY, JSON.stringify(ruleSets));
+  });
+}
+
 export interface TemplatesStoreState {
   presets: TemplatePreset[];
   favorites: string[];
   activePreset: string | null;
+  ruleSets: TemplateRuleSet[];
 }
 
 const createTemplatesStore = () => {
@@ -82,11 +101,13 @@ const createTemplatesStore = () => {
     presets: [...BUILTIN_PRESETS, ...initialUserPresets],
     favorites: initialFavorites,
     activePreset: null,
+    ruleSets: loadRuleSets(),
   });
 
   function syncToStorage(state: TemplatesStoreState) {
     persistUserTemplates(state.presets.filter(p => !p.isBuiltIn));
     persistFavorites(state.favorites);
+    persistRuleSets(state.ruleSets);
   }
 
   return {
@@ -140,6 +161,24 @@ const createTemplatesStore = () => {
       });
     },
 
+    addRuleSet(name: string, rules: TemplateRule[]) {
+      update(state => {
+        const id = `rules-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const ruleSet: TemplateRuleSet = { id, name, rules, createdAt: new Date() };
+        const next = { ...state, ruleSets: [...state.ruleSets, ruleSet] };
+        syncToStorage(next);
+        return next;
+      });
+    },
+
+    removeRuleSet(id: string) {
+      update(state => {
+        const next = { ...state, ruleSets: state.ruleSets.filter(r => r.id !== id) };
+        syncToStorage(next);
+        return next;
+      });
+    },
+
     validate(template: string) {
       return validateTemplate(template);
     },
@@ -149,6 +188,7 @@ const createTemplatesStore = () => {
         presets: [...BUILTIN_PRESETS],
         favorites: [],
         activePreset: null,
+        ruleSets: [],
       };
       syncToStorage(next);
       set(next);
@@ -1,12 +1,15 @@
 export interface ExifData {
   make: string | null;
   model: string | null;
+  serialNumber: string | null;
   lensModel: string | null;
   software: string | null;
   dateTaken: Date | null;
   dateOriginal: Date | null;
   dateCreated: Date | null;
   dateModified: Date | null;
+  offsetTime: string | null; // UTC offset of dateTaken from OffsetTimeOriginal, e.g. "+02:00"
+  clockOffsetMs?: number; // Camera clock correction already applied to dateTaken
   exposureTime: number | string | null;
   fNumber: number | null;
   iso: number | null;
@@ -18,6 +21,9 @@ export interface ExifData {
   orientation: number;
   colorSpace: number | string | null;
   gps: GPSData | null;
+  duration?: number | null; // Seconds, for video clips
+  frameRate?: number | null; // Frames per second, for video clips
+  contentIdentifier?: string | null; // Apple id shared by the still and the clip of a Live Photo
   artist: string | null;
   copyright: string | null;
   raw: any; 
@@ -59,6 +65,13 @@ export interface CameraInfo {
   manufacturer: string;
 }
 
+export interface CameraClockOffset {
+  make: string | null;
+  model: string | null;
+  serialNumber: string | null; // When set, only this body is shifted
+  offsetMs: number; // Added to the capture time of matching photos
+}
+
 export interface LensInfo {
   model: string;
   make?: string;
@@ -0,0 +1,35 @@
+// Parts of the File System Access API that lib.dom does not describe yet.
+// Only Chromium browsers provide them, so every member is optional.
+
+export type FileHandlePermissionMode = 'read' | 'readwrite';
+
+export interface FileHandlePermissionDescriptor {
+  mode?: FileHandlePermissionMode;
+}
+
+export interface PermissionedFileHandle extends FileSystemFileHandle {
+  queryPermission?(descriptor?: FileHandlePermissionDescriptor): Promise<PermissionState>;
+  requestPermission?(descriptor?: FileHandlePermissionDescriptor): Promise<PermissionState>;
+}
+
+export interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+}
+
+export interface HandleDataTransferItem extends DataTransferItem {
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
+}
+
+export interface OpenFilePickerOptions {
+  multiple?: boolean;
+  excludeAcceptAllOption?: boolean;
+  types?: {
+    description?: string;
+    accept: Record<string, string[]>;
+  }[];
+}
+
+export interface FilePickerWindow extends Window {
+  showOpenFilePicker?(options?: OpenFilePickerOptions): Promise<FileSystemFileHandle[]>;
+  showDirectoryPicker?(options?: FileHandlePermissionDescriptor): Promise<FileSystemDirectoryHandle>;
+}
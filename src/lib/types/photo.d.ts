@@ -1,5 +1,5 @@
 import type { ExifData } from './exif';
-import type { RenameResult } from './template';
+import type { NameOverride, RenameResult } from './template';
 import type { ValidationResult } from '../utils/validators';
 
 export type PhotoStatus = 
@@ -12,6 +12,9 @@ export type PhotoStatus =
   | 'error'      
   | 'warning';  
 
+// How the files of a RAW+JPEG pair or a Live Photo were matched
+export type PairMatch = 'stem' | 'capture' | 'live';
+
 export interface PhotoMetadata {
   // File information
   fileName: string;
@@ -19,6 +22,7 @@ export interface PhotoMetadata {
   fileSize: number;
   fileType: string;
   lastModified: Date;
+  relativePath?: string; // Path inside a dropped folder, e.g. "Day1/Ceremony/IMG_0001.jpg"
   
   // Image properties
   width?: number;
@@ -60,6 +64,9 @@ export interface Photo {
   
   // Original file
   file: File;
+  companions?: File[]; // Other formats of the same shot, exported under the same name
+  pairedBy?: PairMatch;
+  sidecars?: File[]; // .xmp, .aae, .thm or .wav files named after the photo, renamed with it
   
   // Metadata
   metadata: PhotoMetadata;
@@ -74,6 +81,8 @@ export interface Photo {
   // Rename information
   renameResult: RenameResult | null;
   newFileName?: string;
+  variables?: Record<string, string>; // Overrides the batch values of {var:name}
+  nameOverride?: NameOverride; // Kept when the batch template changes
   
   // Preview
   thumbnailUrl?: string;
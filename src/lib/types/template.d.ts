@@ -1,6 +1,9 @@
+import type { ExifData } from './exif';
+
 export type TemplateTokenType =
   // Date tokens
   | 'YYYY' | 'YY' | 'MM' | 'DD' | 'HH' | 'mm' | 'ss'
+  | 'MMM' | 'MMMM' | 'ddd' | 'dddd'
   | 'date' | 'datetime' | 'timestamp'
   
   // Camera tokens
@@ -24,11 +27,41 @@ export interface TemplateToken {
   position: number;
   isValid: boolean;
   type?: TemplateTokenType;
-  parameters?: string[]; // For tokens with params like {counter:5}
+  parameters?: string[]; // For tokens with params like {counter:5}; the source of a {= ...} expression
+  qualifier?: string; // Text after "@", e.g. the timezone in {date@Europe/Paris}
+  modifiers?: TemplateModifier[]; // For piped filters like {model|lower|truncate:8}
+  fallbacks?: TemplateToken[]; // Alternatives tried in order, e.g. {lens?model?make}
+}
+
+export interface TemplateModifier {
+  name: string;
+  args: string[];
+  position: number;
+}
+
+export interface TemplateLiteralNode {
+  type: 'literal';
+  value: string; // Unescaped text, e.g. "{{" becomes "{"
+  position: number;
+}
+
+export interface TemplateTokenNode {
+  type: 'token';
+  token: TemplateToken;
 }
 
+export interface TemplateSectionNode {
+  type: 'section';
+  children: TemplateNode[]; // Omitted entirely when any token inside is empty
+  position: number;
+  source: string; // Raw template text, e.g. "[_{lens}]"
+}
+
+export type TemplateNode = TemplateLiteralNode | TemplateTokenNode | TemplateSectionNode;
+
 export interface ParsedTemplate {
   template: string;
+  nodes: TemplateNode[]; // Literals and tokens in template order
   tokens: TemplateToken[];
   literalParts: string[]; // Static text between tokens
   hasValidTokens: boolean;
@@ -59,7 +92,10 @@ export type TemplateErrorType =
   | 'invalid_syntax'
   | 'unsupported_token'
   | 'missing_parameter'
-  | 'invalid_parameter';
+  | 'invalid_parameter'
+  | 'invalid_modifier'
+  | 'invalid_expression'
+  | 'unclosed_section';
 
 export interface TemplateWarning {
   type: TemplateWarningType;
@@ -89,6 +125,12 @@ export interface RenameMetadata {
   exifDataUsed: boolean;
   fallbacksApplied: string[];
   processingTime?: number;
+  hasConflict?: boolean; // Filename collided with another file in the batch
+  skipped?: boolean; // Kept the original filename because of a collision
+  overwritten?: boolean; // A later file takes this filename, so this one is not exported
+  overwrittenNames?: string[]; // Names of this file and its attached files that later files take
+  matchedRule?: { id: string; name: string; presetId: string }; // Template rule that picked the template
+  override?: NameOverride['kind']; // The photo's own name or template was used
 }
 
 export interface RenameOptions {
@@ -96,9 +138,22 @@ export interface RenameOptions {
   counter?: number;
   counterPadding?: number;
   startCounter?: number;
+  scopedCounters?: Record<string, number>; // Counter within each "@scope" group, e.g. { date: 3 }
+  sortOrder?: RenameSortOrder; // Order files are numbered in
   
   // Custom values
   customText?: string;
+  customValues?: Record<string, string>; // Values for registered custom tokens and {var:name}
+  customValueOverrides?: Map<File | string, Record<string, string>>; // Per-file {var:name} values, keyed like the EXIF map
+  tokenOptions?: TokenSpecificOptions;
+  originalPattern?: string; // Regex with named groups, matched against the original name for {orig.*}
+  replaceRules?: ReplaceRule[]; // Applied in order to the original name before the template runs
+  templateRules?: ResolvedTemplateRule[]; // First matching rule replaces the batch template for a file
+  nameOverrides?: Map<File | string, NameOverride>; // Per-file names or templates, ahead of rules
+  relativePaths?: Map<File | string, string>; // Path of each file inside a dropped folder, for {folder} and {path}
+  relativePath?: string; // Path of the file being renamed, taken from relativePaths
+  keepFolders?: boolean; // Files are exported into their relativePaths folders, so only names within a folder conflict
+  attachedFiles?: Map<File | string, AttachedFiles>; // Files exported under each file's new name, conflict-checked with it
   
   // Fallback behavior
   fallbackDate?: Date;
@@ -112,6 +167,8 @@ export interface RenameOptions {
   // Conflict resolution
   handleConflicts?: boolean;
   conflictResolution?: 'suffix' | 'skip' | 'overwrite';
+  conflictSuffix?: ConflictSuffixFormat;
+  caseSensitiveConflicts?: boolean; // Defaults to false, as on Windows and macOS
   
   // Case transformation
   caseTransform?: 'none' | 'lowercase' | 'uppercase' | 'titlecase';
@@ -121,12 +178,66 @@ export interface RenameOptions {
   spaceReplacement?: string;
 }
 
+// A photo's own file and the files that take its new name: the RAW half of a RAW+JPEG pair and its sidecars
+export interface AttachedFiles {
+  file: File;
+  companions?: File[];
+  sidecars?: File[];
+}
+
+export interface ReplaceRule {
+  find: string;
+  replace: string; // May use $1 or $<name> when isRegex is set
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  enabled?: boolean;
+}
+
+export interface NameOverride {
+  kind: 'name' | 'template'; // A fixed name (extension optional) or a template for this file only
+  value: string;
+}
+
+export interface TemplateRuleCondition {
+  cameraMake?: string[]; // Matches when the make contains any entry, ignoring case
+  cameraModel?: string[];
+  hasGPS?: boolean;
+  fileTypes?: string[]; // Extensions without the dot, e.g. ["heic", "dng"]
+  dateRange?: {
+    start?: string; // YYYY-MM-DD, inclusive
+    end?: string;
+  };
+  orientation?: 'landscape' | 'portrait' | 'square';
+}
+
+export interface TemplateRule {
+  id: string;
+  name: string;
+  condition: TemplateRuleCondition;
+  presetId: string; // TemplatePreset used for matching files
+  enabled?: boolean;
+}
+
+export interface ResolvedTemplateRule {
+  rule: TemplateRule;
+  template: string;
+  variables?: Record<string, string>; // Defaults from the rule's preset
+}
+
+export interface TemplateRuleSet {
+  id: string;
+  name: string;
+  rules: TemplateRule[];
+  createdAt?: Date;
+}
+
 export interface TemplatePreset {
   id: string;
   name: string;
   template: string;
   description?: string;
   category?: TemplateCategory;
+  variables?: Record<string, string>; // Default values for {var:name} tokens
   tags?: string[];
   
   // Metadata
@@ -190,18 +301,19 @@ export interface TemplateContext {
 
 export interface TokenDocumentation {
   token: string;
-  type: TemplateTokenType;
+  type: TemplateTokenType | string; // Custom tokens use their own name
   description: string;
   example: string;
   exampleOutput: string;
   requiresExif: boolean;
-  category: 'date' | 'camera' | 'settings' | 'image' | 'gps' | 'utility';
+  category: 'date' | 'camera' | 'settings' | 'image' | 'gps' | 'video' | 'utility' | 'custom';
   parameters?: TokenParameter[];
+  qualifier?: TokenParameter; // Accepted "@" qualifier, e.g. a timezone
 }
 
 export interface TokenParameter {
   name: string;
-  type: 'number' | 'string' | 'boolean';
+  type: 'number' | 'string' | 'boolean' | 'timezone' | 'token';
   required: boolean;
   default?: any;
   description: string;
@@ -241,6 +353,13 @@ export interface AutocompleteSuggestion {
   category: string;
 }
 
+export type RenameSortOrder =
+  | 'added'        // Order the files were added in
+  | 'captureTime'  // EXIF capture time, including sub-seconds
+  | 'filename'     // Original filename, natural sort (IMG_2 before IMG_10)
+  | 'modified'     // File modified time
+  | 'cameraTime';  // Camera body, then capture time
+
 export interface BatchRenameConfig {
   template: string;
   options: RenameOptions;
@@ -250,11 +369,14 @@ export interface BatchRenameConfig {
   logResults: boolean;
 }
 
-export interface BatchRenameResult {
+// Suffix added to the second and later files that share a name, shown by example
+export type ConflictSuffixFormat = '_1' | '-a' | ' (2)' | '_v2';
+
+export interface BatchRenameResult<K = string> {
   totalFiles: number;
   successCount: number;
   failureCount: number;
-  results: Map<string, RenameResult>;
+  results: Map<K, RenameResult>;
   conflicts: RenameConflict[];
   duration: number;
   errors: string[];
@@ -267,6 +389,7 @@ export interface RenameConflict {
   conflictType: 'duplicate' | 'existing';
   resolution?: 'suffix' | 'skip' | 'overwrite';
   resolvedFilename?: string;
+  resolvedFilenames?: string[]; // Final name of each entry in originalFiles
 }
 
 export interface TemplateExport {
@@ -296,11 +419,18 @@ export interface TemplateResolver {
 }
 
 export interface ResolverContext {
-  exifData?: any;
+  exifData?: ExifData | null;
   file?: File;
   counter?: number;
   customValues?: Record<string, string>;
   options?: RenameOptions;
+  date?: Date; // Capture date, or the fallback date when EXIF has none
+  originalFilename?: string;
+  relativePath?: string; // e.g. "Day1/Ceremony/IMG_0001.jpg" for a file from a dropped folder
+  parameters?: string[]; // Parameters of the token being resolved, e.g. ["5"] for {counter:5}
+  qualifier?: string; // "@" qualifier of the token being resolved
+  scopedCounters?: Record<string, number>;
+  originalParts?: Record<string, string> | null; // Pattern captures for {orig.*}, null when the name did not match
 }
 
 export type TemplateTransform = (
@@ -354,15 +484,17 @@ export type TemplateVariableMap = Record<string, string | number | Date | null>;
 
 export interface TokenSpecificOptions {
   date?: {
-    format?: string;
-    locale?: string;
-    timezone?: string;
+    format?: string; // Pattern used by {date} when it has no parameter
+    locale?: string; // Locale for month and weekday names
+    timezone?: string; // IANA timezone used when a token has no "@" qualifier
+    useExifOffset?: boolean; // Treat OffsetTimeOriginal as the authoritative capture offset
   };
   counter?: {
     start?: number;
     padding?: number;
     prefix?: string;
     suffix?: string;
+    scope?: string; // Token whose value restarts the counter when {counter} has no "@" scope
   };
   gps?: {
     format?: 'decimal' | 'dms';
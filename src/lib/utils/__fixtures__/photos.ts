@@ -0,0 +1,49 @@
+import type { ExifData } from '../../types/exif';
+import type { Photo } from '../../types/photo';
+
+export interface PhotoFixture {
+  exif?: Partial<ExifData>;
+  relativePath?: string;
+  companions?: File[];
+  sidecars?: File[];
+  variables?: Record<string, string>;
+}
+
+let nextId = 0;
+
+// Files carry their name as content so archive entries can be traced back to them
+export function makeFile(name: string, lastModified = Date.UTC(2024, 0, 1)): File {
+  return new File([name], name, { lastModified });
+}
+
+export function makePhoto(name: string, fixture: PhotoFixture = {}): Photo {
+  const file = makeFile(name);
+  const exif = fixture.exif ? ({ raw: {}, ...fixture.exif } as ExifData) : null;
+
+  return {
+    id: `photo-${++nextId}`,
+    file,
+    companions: fixture.companions,
+    sidecars: fixture.sidecars,
+    metadata: {
+      fileName: name,
+      originalFileName: name,
+      fileSize: file.size,
+      fileType: file.type,
+      lastModified: new Date(file.lastModified),
+      relativePath: fixture.relativePath,
+      exif,
+      hasExif: exif !== null,
+      hasGPS: false,
+      uploadedAt: new Date(0)
+    },
+    variables: fixture.variables,
+    status: 'pending',
+    validation: null,
+    isValid: false,
+    renameResult: null,
+    warnings: [],
+    selected: true,
+    index: nextId
+  };
+}
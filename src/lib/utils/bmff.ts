@@ -0,0 +1,77 @@
+// Reading of ISO base media files (MP4, MOV, HEIC, CR3), which nest sized, typed boxes
+
+export interface Box {
+  type: string; // Four characters, e.g. "moov" or "©mak"
+  start: number; // First byte after the box header
+  end: number;
+}
+
+/**
+ * Find a box at the top level of a file without reading the file whole
+ * Only the box headers are read on the way, so media data is skipped over
+ */
+export async function findTopLevelBox(file: Blob, type: string): Promise<Box | null> {
+  let offset = 0;
+
+  while (offset + 8 <= file.size) {
+    const header = new Uint8Array(await file.slice(offset, offset + 16).arrayBuffer());
+    const box = readBoxHeader(header, file.size - offset);
+    if (!box) return null;
+    if (box.type === type) {
+      return { type, start: offset + box.start, end: offset + box.end };
+    }
+    offset += box.end;
+  }
+
+  return null;
+}
+
+export function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const box = readBoxHeader(bytes.subarray(offset, end), end - offset);
+    if (!box) break;
+    boxes.push({ type: box.type, start: offset + box.start, end: offset + box.end });
+    offset += box.end;
+  }
+
+  return boxes;
+}
+
+/**
+ * Follow a path of box types down from a parent, e.g. ['mdia', 'minf', 'stbl']
+ * The first box of each type is taken
+ */
+export function findBox(bytes: Uint8Array, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+
+  for (const type of path) {
+    current = readBoxes(bytes, current.start, current.end).find(box => box.type === type) ?? null;
+    if (!current) return null;
+  }
+
+  return current;
+}
+
+// Size 1 means a 64-bit size follows the type; size 0 runs to the end of the parent
+function readBoxHeader(bytes: Uint8Array, available: number): Box | null {
+  if (bytes.length < 8) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = String.fromCharCode(...bytes.subarray(4, 8));
+  let size = view.getUint32(0);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (bytes.length < 16) return null;
+    size = Number(view.getBigUint64(8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = available;
+  }
+
+  if (size < headerSize || size > available) return null;
+  return { type, start: headerSize, end: size };
+}
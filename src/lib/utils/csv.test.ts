@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { makePhoto } from './__fixtures__/photos';
+import { importCsv, parseDelimited } from './csv';
+
+describe('parseDelimited', () => {
+  it('detects tabs and keeps quoted delimiters and quotes', () => {
+    const table = parseDelimited('File\tNote\nIMG_1.jpg\t"a\tb ""c"""\n');
+
+    expect(table).toEqual({ headers: ['File', 'Note'], rows: [['IMG_1.jpg', 'a\tb "c"']], delimiter: '\t' });
+  });
+});
+
+describe('importCsv', () => {
+  it('matches by original name with or without the extension', () => {
+    const photos = [makePhoto('IMG_0001.jpg'), makePhoto('IMG_0002.jpg'), makePhoto('IMG_0003.jpg')];
+    const table = parseDelimited([
+      'File,Student Name',
+      'img_0001,Ada',
+      'IMG_0002.jpg,Grace',
+      'IMG_0001.jpg,Later',
+      'IMG_0009.jpg,Nobody',
+      ',Blank'
+    ].join('\n'));
+
+    const result = importCsv(table, photos, { keyColumn: 0, matchBy: 'original' });
+
+    expect(result.variableNames).toEqual(['student_name']);
+    expect(result.variables.get(photos[0].id)).toEqual({ student_name: 'Ada' });
+    expect(result.variables.get(photos[1].id)).toEqual({ student_name: 'Grace' });
+    expect(result.matchedRows).toBe(3);
+    expect(result.unmatchedRows).toEqual([{ line: 5, key: 'IMG_0009.jpg' }, { line: 6, key: '' }]);
+    expect(result.unmatchedPhotos).toEqual([photos[2]]);
+  });
+
+  it('matches by a token rendered from each photo, ignoring leading zeros', () => {
+    const photos = [makePhoto('DSC_0042.jpg'), makePhoto('DSC_0043.jpg')];
+    const table = parseDelimited('Frame,Client\n42,Smith\n');
+
+    const result = importCsv(table, photos, { keyColumn: 0, matchBy: 'token', template: '{orig.frame}' }, {
+      originalPattern: '^DSC_(?<frame>\\d+)$'
+    });
+
+    expect(result.variables.get(photos[0].id)).toEqual({ client: 'Smith' });
+    expect(result.unmatchedPhotos).toEqual([photos[1]]);
+  });
+
+  it('matches by capture time within the tolerance', () => {
+    const photos = [
+      makePhoto('a.jpg', { exif: { dateTaken: new Date(2024, 5, 1, 14, 5, 9) } }),
+      makePhoto('b.jpg', { exif: { dateTaken: new Date(2024, 5, 1, 14, 7, 0) } }),
+      makePhoto('c.jpg')
+    ];
+    const table = parseDelimited('Time,Scene\n2024:06:01 14:05:11,Ceremony\n14:07:00,Toast\n15:00:00,Cake\n');
+
+    const result = importCsv(table, photos, { keyColumn: 0, matchBy: 'time', toleranceSeconds: 2 });
+
+    expect(result.variables.get(photos[0].id)).toEqual({ scene: 'Ceremony' });
+    expect(result.variables.get(photos[1].id)).toEqual({ scene: 'Toast' });
+    expect(result.unmatchedRows).toEqual([{ line: 4, key: '15:00:00' }]);
+    expect(result.unmatchedPhotos).toEqual([photos[2]]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { Photo } from '../types/photo';
+import type { RenameOptions } from '../types/template';
+import { generateFilename } from './rename';
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export type CsvMatchMode = 'original' | 'token' | 'time';
+
+export interface CsvImportMapping {
+  keyColumn: number;
+  matchBy: CsvMatchMode;
+  template?: string; // Rendered per photo for "token", e.g. "{orig.frame}"
+  toleranceSeconds?: number; // Allowed capture time difference for "time"
+}
+
+export interface CsvImportResult {
+  variables: Map<string, Record<string, string>>; // Values per photo id
+  variableNames: string[]; // One per non-key column, usable as {var:name}
+  matchedRows: number;
+  unmatchedRows: { line: number; key: string }[]; // Spreadsheet row numbers, the header being row 1
+  unmatchedPhotos: Photo[];
+}
+
+const DELIMITERS = [',', '\t', ';'];
+
+/**
+ * Parse CSV or TSV text with quoted fields ("a, b" and "" escapes)
+ * The delimiter is detected from the header line unless given
+ */
+export function parseDelimited(text: string, delimiter?: string): DelimitedTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const separator = delimiter ?? detectDelimiter(source);
+  const records: string[][] = [];
+
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter(r => r.some(cell => cell.trim() !== ''));
+
+  return {
+    headers: headers.map(header => header.trim()),
+    rows: rows.map(row => row.map(cell => cell.trim())),
+    delimiter: separator
+  };
+}
+
+/**
+ * Match table rows to photos and turn the other columns into {var:name} values
+ * When several rows match a photo, the first one wins
+ */
+export function importCsv(
+  table: DelimitedTable,
+  photos: Photo[],
+  mapping: CsvImportMapping,
+  options: RenameOptions = {}
+): CsvImportResult {
+  const variableNames = toVariableNames(table.headers);
+  const valueColumns = table.headers
+    .map((_, index) => index)
+    .filter(index => index !== mapping.keyColumn);
+
+  const findPhotos = createMatcher(photos, mapping, options);
+  const variables = new Map<string, Record<string, string>>();
+  const unmatchedRows: CsvImportResult['unmatchedRows'] = [];
+  let matchedRows = 0;
+
+  table.rows.forEach((row, index) => {
+    const key = row[mapping.keyColumn] ?? '';
+    const matches = key ? findPhotos(key) : [];
+
+    if (matches.length === 0) {
+      unmatchedRows.push({ line: index + 2, key });
+      return;
+    }
+
+    matchedRows++;
+    const values = Object.fromEntries(
+      valueColumns
+        .filter(column => row[column])
+        .map(column => [variableNames[column], row[column]])
+    );
+
+    matches
+      .filter(photo => !variables.has(photo.id))
+      .forEach(photo => variables.set(photo.id, values));
+  });
+
+  return {
+    variables,
+    variableNames: valueColumns.map(column => variableNames[column]),
+    matchedRows,
+    unmatchedRows,
+    unmatchedPhotos: photos.filter(photo => !variables.has(photo.id))
+  };
+}
+
+// "Student Name" becomes student_name; blank or repeated headers get a column number
+export function toVariableNames(headers: string[]): string[] {
+  const used = new Set<string>();
+
+  return headers.map((header, index) => {
+    let name = header.toLowerCase().replace(/\W+/g, '_').replace(/^_+|_+$/g, '') || `column${index + 1}`;
+    if (used.has(name)) name = `${name}_${index + 1}`;
+    used.add(name);
+    return name;
+  });
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+}
+
+function createMatcher(
+  photos: Photo[],
+  mapping: CsvImportMapping,
+  options: RenameOptions
+): (key: string) => Photo[] {
+  if (mapping.matchBy === 'time') {
+    const tolerance = (mapping.toleranceSeconds ?? 1) * 1000;
+    return key => {
+      const time = parseCellTime(key);
+      return time ? photos.filter(photo => isSameTime(photo, time, tolerance)) : [];
+    };
+  }
+
+  const index = new Map<string, Photo[]>();
+  const add = (key: string, photo: Photo) => {
+    const normalized = normalizeKey(key);
+    if (!normalized) return;
+    const entries = index.get(normalized) ?? [];
+    if (!entries.includes(photo)) index.set(normalized, [...entries, photo]);
+  };
+
+  photos.forEach(photo => {
+    const name = photo.metadata.originalFileName || photo.file.name;
+
+    if (mapping.matchBy === 'original') {
+      add(name, photo);
+      add(name.replace(/\.[^.]+$/, ''), photo);
+      return;
+    }
+
+    const rendered = generateFilename(mapping.template || '{original}', photo.metadata.exif, name, {
+      ...options,
+      preserveExtension: false
+    });
+    add(rendered.filename, photo);
+  });
+
+  return key => index.get(normalizeKey(key)) ?? [];
+}
+
+// Case-insensitive, and "0042" matches "42"
+function normalizeKey(key: string): string {
+  const trimmed = key.trim().toLowerCase();
+  return /^\d+$/.test(trimmed) ? String(parseInt(trimmed, 10)) : trimmed;
+}
+
+type CellTime = { kind: 'datetime'; date: Date } | { kind: 'time'; seconds: number };
+
+// Accepts "2024-06-01 14:05:09", EXIF-style "2024:06:01 14:05:09" or a bare "14:05:09"
+function parseCellTime(value: string): CellTime | null {
+  const full = /^(\d{4})[-:/](\d{2})[-:/](\d{2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (full) {
+    const [, year, month, day, hour, minute, second = '0'] = full;
+    return {
+      kind: 'datetime',
+      date: new Date(+year, +month - 1, +day, +hour, +minute, +second)
+    };
+  }
+
+  const time = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+  if (time) {
+    const [, hour, minute, second = '0'] = time;
+    return { kind: 'time', seconds: +hour * 3600 + +minute * 60 + +second };
+  }
+
+  return null;
+}
+
+function isSameTime(photo: Photo, time: CellTime, toleranceMs: number): boolean {
+  const taken = photo.metadata.exif?.dateTaken;
+  if (!taken) return false;
+
+  if (time.kind === 'datetime') {
+    return Math.abs(taken.getTime() - time.date.getTime()) <= toleranceMs;
+  }
+
+  const seconds = taken.getHours() * 3600 + taken.getMinutes() * 60 + taken.getSeconds();
+  return Math.abs(seconds - time.seconds) * 1000 <= toleranceMs;
+}
@@ -1,13 +1,23 @@
 import exifr from 'exifr';
-import type { ExifData, ExifOptions, GPSData } from '../types/exif';
+import type { CameraClockOffset, ExifData, ExifOptions, GPSData } from '../types/exif';
+import {
+  findEmbeddedJpeg,
+  getRawFormatFromMimeType,
+  getRawFormatFromName,
+  readCr3Exif,
+  sniffRawFormat
+} from './raw';
+import { isVideoFile, readVideoMetadata, sniffVideo } from './video';
 
 const EXTENDED_EXIF_FIELDS = [
   
   'Make', 'Model', 'LensModel', 'Software',
+  'BodySerialNumber', 'SerialNumber', 'InternalSerialNumber',
   
   
   'DateTimeOriginal', 'CreateDate', 'ModifyDate', 'DateTime',
   'DateCreated', 'TimeCreated', 'DateTimeDigitized',
+  'OffsetTimeOriginal', 'OffsetTime', 'OffsetTimeDigitized', 'SubSecTimeOriginal',
   
   
   'ExposureTime', 'ShutterSpeedValue', 'FNumber', 'ApertureValue',
@@ -28,7 +38,10 @@ const EXTENDED_EXIF_FIELDS = [
   'SceneCaptureType', 'Contrast', 'Saturation', 'Sharpness',
   
   
-  'Artist', 'Copyright', 'UserComment', 'ImageDescription'
+  'Artist', 'Copyright', 'UserComment', 'ImageDescription',
+
+  // Apple's holds the Live Photo content identifier
+  'MakerNote'
 ] as const;
 
 const ENHANCED_EXIFR_OPTIONS = {
@@ -67,7 +80,19 @@ export async function extractExif(
             ...options
         };
 
-        const exifData = await exifr.parse(file, mergedOptions as any);
+        // CR3 is not a container exifr knows; RAF and RW2 keep their full EXIF in an embedded JPEG.
+        // Video clips carry no EXIF, so their QuickTime metadata is read instead
+        const rawFormat = await sniffRawFormat(file);
+        const exifData = rawFormat === 'cr3'
+            ? await readCr3Exif(file)
+            : await sniffVideo(file)
+            ? await readVideoMetadata(file)
+            : await exifr.parse(
+                (rawFormat === 'raf' || rawFormat === 'rw2'
+                    ? await findEmbeddedJpeg(file, rawFormat)
+                    : null) ?? file,
+                mergedOptions as any
+            );
 
         if (!exifData || Object.keys(exifData).length === 0) {
             return null;
@@ -87,6 +112,7 @@ function normalizeExifData(rawExif: any): ExifData {
   
   const make = rawExif.Make || rawExif.CameraMake || rawExif.DeviceManufacturer || null;
   const model = rawExif.Model || rawExif.CameraModel || rawExif.DeviceModel || null;
+  const serialNumber = rawExif.BodySerialNumber || rawExif.SerialNumber || rawExif.InternalSerialNumber;
   const lensModel = rawExif.LensModel || rawExif.LensInfo || rawExif.LensMake || null;
   
   
@@ -108,12 +134,14 @@ function normalizeExifData(rawExif: any): ExifData {
   return {
     make,
     model,
+    serialNumber: serialNumber ? String(serialNumber).trim() : null,
     lensModel,
     software: rawExif.Software || null,
     dateTaken,
     dateOriginal: rawExif.DateTimeOriginal || null,
     dateCreated: rawExif.CreateDate || rawExif.DateCreated || null,
     dateModified: rawExif.ModifyDate || null,
+    offsetTime: rawExif.OffsetTimeOriginal || rawExif.OffsetTime || rawExif.OffsetTimeDigitized || null,
     exposureTime,
     fNumber,
     iso,
@@ -125,12 +153,38 @@ function normalizeExifData(rawExif: any): ExifData {
     orientation: rawExif.Orientation || 1,
     colorSpace: rawExif.ColorSpace || null,
     gps: extractGPSData(rawExif) as GPSData | null,
+    duration: rawExif.Duration || null,
+    frameRate: rawExif.VideoFrameRate || null,
+    contentIdentifier: rawExif.ContentIdentifier || readAppleContentIdentifier(rawExif.makerNote),
     artist: rawExif.Artist || null,
     copyright: rawExif.Copyright || null,
     raw: rawExif
   } as ExifData;
 }
 
+// Apple maker notes start "Apple iOS", a version and "MM", then an IFD whose
+// value offsets count from the start of the note; tag 0x11 is the content identifier
+function readAppleContentIdentifier(makerNote: unknown): string | null {
+  if (!(makerNote instanceof Uint8Array) || makerNote.length < 16) return null;
+  if (String.fromCharCode(...makerNote.subarray(0, 9)) !== 'Apple iOS') return null;
+
+  const view = new DataView(makerNote.buffer, makerNote.byteOffset, makerNote.byteLength);
+  const count = view.getUint16(14);
+
+  for (let i = 0; i < count; i++) {
+    const position = 16 + i * 12;
+    if (position + 12 > makerNote.length) break;
+    if (view.getUint16(position) !== 0x11 || view.getUint16(position + 2) !== 2) continue;
+
+    const length = view.getUint32(position + 4);
+    const start = length <= 4 ? position + 8 : view.getUint32(position + 8);
+    const value = new TextDecoder().decode(makerNote.subarray(start, Math.min(start + length, makerNote.length)));
+    return value.replace(/\0+$/, '').trim() || null;
+  }
+
+  return null;
+}
+
 function extractDateTaken(exifData: any): Date | null {
   const dateFields = [
     exifData.DateTimeOriginal,
@@ -142,19 +196,28 @@ function extractDateTaken(exifData: any): Date | null {
   ];
 
   for (const dateField of dateFields) {
-    if (dateField instanceof Date) {
-      return dateField;
-    }
-
-    if (typeof dateField === 'string') {
-      const parsed = parseExifDate(dateField);
-      if (parsed) return parsed;
+    const parsed = dateField instanceof Date
+      ? dateField
+      : typeof dateField === 'string' ? parseExifDate(dateField) : null;
+
+    if (parsed) {
+      // SubSecTimeOriginal holds the fraction of a second for DateTimeOriginal
+      return dateField === exifData.DateTimeOriginal
+        ? withSubSeconds(parsed, exifData.SubSecTimeOriginal)
+        : parsed;
     }
   }
 
   return null;
 }
 
+function withSubSeconds(date: Date, subSec: unknown): Date {
+  const digits = String(subSec ?? '').trim();
+  if (!/^\d+$/.test(digits) || date.getMilliseconds() !== 0) return date;
+
+  return new Date(date.getTime() + Math.floor(parseFloat(`0.${digits}`) * 1000));
+}
+
 function parseExifDate(dateString: string): Date | null {
   try {
     
@@ -199,6 +262,69 @@ export async function batchExtractExif(
   return results;
 }
 
+/**
+ * Find the clock offset for the camera that took a photo
+ * Serial number entries win over make/model entries
+ */
+export function findClockOffset(
+  exifData: ExifData | null,
+  offsets: CameraClockOffset[]
+): CameraClockOffset | undefined {
+  if (!exifData) return undefined;
+
+  const same = (a: string | null, b: string | null) =>
+    (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+  return (
+    offsets.find(o => o.serialNumber && same(o.serialNumber, exifData.serialNumber)) ||
+    offsets.find(o =>
+      !o.serialNumber &&
+      same(o.make, exifData.make) &&
+      (!o.model || same(o.model, exifData.model))
+    )
+  );
+}
+
+/**
+ * Shift dateTaken by the matching camera clock offset
+ * Any previously applied offset is undone first, so this can be re-run when the table changes
+ */
+export function applyClockOffset(exifData: ExifData, offsets: CameraClockOffset[]): ExifData {
+  if (!exifData.dateTaken) return exifData;
+
+  const offsetMs = findClockOffset(exifData, offsets)?.offsetMs ?? 0;
+  const captured = exifData.dateTaken.getTime() - (exifData.clockOffsetMs ?? 0);
+
+  return {
+    ...exifData,
+    dateTaken: new Date(captured + offsetMs),
+    clockOffsetMs: offsetMs
+  };
+}
+
+/**
+ * Work out a clock offset from two photos of the same moment, one taken by a
+ * camera with a trusted clock and one by the camera to correct
+ *
+ * @returns Offset for the target camera, or null when either capture time is missing
+ */
+export function computeClockOffset(
+  reference: ExifData,
+  target: ExifData
+): CameraClockOffset | null {
+  if (!reference.dateTaken || !target.dateTaken) return null;
+
+  const capturedAt = (exif: ExifData) => exif.dateTaken!.getTime() - (exif.clockOffsetMs ?? 0);
+  const referenceTime = reference.dateTaken.getTime();
+
+  return {
+    make: target.make,
+    model: target.model,
+    serialNumber: target.serialNumber,
+    offsetMs: referenceTime - capturedAt(target)
+  };
+}
+
 export function canHaveExif(file: File): boolean {
   const supportedTypes = [
     'image/jpeg',
@@ -207,7 +333,12 @@ export function canHaveExif(file: File): boolean {
     'image/heic',
     'image/heif'
   ];
-  return supportedTypes.includes(file.type.toLowerCase());
+  return (
+    supportedTypes.includes(file.type.toLowerCase()) ||
+    getRawFormatFromMimeType(file.type) !== null ||
+    getRawFormatFromName(file.name) !== null ||
+    isVideoFile(file)
+  );
 }
 
 export function getExifSummary(exifData: ExifData): string[] {
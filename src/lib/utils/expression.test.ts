@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+import { validateTemplate } from './rename';
+
+describe('compileExpression', () => {
+  it('rejects nesting too deep to evaluate instead of overflowing the stack', () => {
+    const nested = '('.repeat(1500) + '1' + ')'.repeat(1500);
+    const chained = '1' + ' + 1'.repeat(5000);
+
+    expect(compileExpression(nested).errors).toEqual([{ message: 'Expression is nested too deeply', position: 200 }]);
+    expect(compileExpression(chained).errors[0].message).toBe('Expression is nested too deeply');
+    expect(compileExpression('((1 + 2) * 3) | pad(4)').errors).toEqual([]);
+  });
+
+  it('reports deep nesting as a template error', () => {
+    const validation = validateTemplate('{= ' + '('.repeat(1500) + '1' + ')'.repeat(1500) + '}');
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors.map(error => error.message).join()).toContain('nested too deeply');
+  });
+});
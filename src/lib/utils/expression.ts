@@ -0,0 +1,736 @@
+import type { ResolverContext } from '../types/template';
+
+/**
+ * Sandboxed expressions for the {= ...} token, e.g. {= focal * 1.5 | round}
+ * Expressions are parsed into a small AST and interpreted; nothing is passed to eval,
+ * and identifiers can only name the fields and functions defined below
+ */
+
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'any';
+
+export type ExpressionValue = number | string | boolean | null;
+
+export interface ExpressionError {
+  message: string;
+  position: number; // Offset into the expression source
+}
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '<' | '<=' | '>' | '>=' | '==' | '!='
+  | '&&' | '||';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue; position: number }
+  | { kind: 'field'; name: string; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+export interface CompiledExpression {
+  source: string;
+  root: ExpressionNode | null; // Null when the source did not parse
+  type: ExpressionType;
+  errors: ExpressionError[];
+}
+
+interface FieldDefinition {
+  type: ExpressionType;
+  description: string;
+  read: (context: ResolverContext) => ExpressionValue;
+}
+
+interface FunctionDefinition {
+  description: string;
+  usage: string;
+  params: ExpressionType[]; // With variadic, the last type repeats
+  minArgs: number;
+  variadic?: boolean;
+  acceptsNull?: boolean; // Receives missing values instead of short-circuiting to null
+  returns: ExpressionType;
+  apply: (args: ExpressionValue[]) => ExpressionValue;
+}
+
+export const EXPRESSION_FIELDS: Record<string, FieldDefinition> = {
+  make: { type: 'string', description: 'Camera make', read: ({ exifData }) => exifData?.make ?? null },
+  model: { type: 'string', description: 'Camera model', read: ({ exifData }) => exifData?.model ?? null },
+  lens: { type: 'string', description: 'Lens model', read: ({ exifData }) => exifData?.lensModel ?? null },
+  serial: { type: 'string', description: 'Camera serial number', read: ({ exifData }) => exifData?.serialNumber ?? null },
+  artist: { type: 'string', description: 'Artist', read: ({ exifData }) => exifData?.artist ?? null },
+  iso: { type: 'number', description: 'ISO', read: ({ exifData }) => exifData?.iso ?? null },
+  aperture: { type: 'number', description: 'F-number, e.g. 2.8', read: ({ exifData }) => exifData?.fNumber ?? null },
+  shutter: {
+    type: 'number',
+    description: 'Exposure time in seconds, e.g. 0.004',
+    read: ({ exifData }) => toNumber(exifData?.exposureTime ?? null)
+  },
+  focal: { type: 'number', description: 'Focal length in mm', read: ({ exifData }) => exifData?.focalLength ?? null },
+  width: { type: 'number', description: 'Image width', read: ({ exifData }) => exifData?.width ?? null },
+  height: { type: 'number', description: 'Image height', read: ({ exifData }) => exifData?.height ?? null },
+  megapixels: {
+    type: 'number',
+    description: 'Width x height in millions of pixels',
+    read: ({ exifData }) =>
+      exifData?.width && exifData?.height ? (exifData.width * exifData.height) / 1e6 : null
+  },
+  orientation: { type: 'number', description: 'EXIF orientation (1-8)', read: ({ exifData }) => exifData?.orientation ?? null },
+  lat: { type: 'number', description: 'GPS latitude', read: ({ exifData }) => exifData?.gps?.lat ?? null },
+  lng: { type: 'number', description: 'GPS longitude', read: ({ exifData }) => exifData?.gps?.lng ?? null },
+  altitude: { type: 'number', description: 'GPS altitude in meters', read: ({ exifData }) => exifData?.gps?.altitude ?? null },
+  year: { type: 'number', description: 'Capture year', read: ({ date }) => date?.getFullYear() ?? null },
+  month: { type: 'number', description: 'Capture month (1-12)', read: ({ date }) => date ? date.getMonth() + 1 : null },
+  day: { type: 'number', description: 'Capture day of the month', read: ({ date }) => date?.getDate() ?? null },
+  hour: { type: 'number', description: 'Capture hour (0-23)', read: ({ date }) => date?.getHours() ?? null },
+  minute: { type: 'number', description: 'Capture minute', read: ({ date }) => date?.getMinutes() ?? null },
+  counter: { type: 'number', description: 'Position in the batch', read: ({ counter }) => counter ?? null },
+  original: {
+    type: 'string',
+    description: 'Original filename without extension',
+    read: ({ originalFilename }) => originalFilename ? originalFilename.replace(/\.[^.]+$/, '') : null
+  }
+};
+
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionDefinition> = {
+  round: {
+    description: 'Round to N decimals (default 0)',
+    usage: 'round(x) or round(x, N)',
+    params: ['number', 'number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x, digits = 0]) => {
+      const factor = 10 ** (digits as number);
+      return Math.round((x as number) * factor) / factor;
+    }
+  },
+  floor: {
+    description: 'Round down',
+    usage: 'floor(x)',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => Math.floor(x as number)
+  },
+  ceil: {
+    description: 'Round up',
+    usage: 'ceil(x)',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => Math.ceil(x as number)
+  },
+  abs: {
+    description: 'Absolute value',
+    usage: 'abs(x)',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => Math.abs(x as number)
+  },
+  sqrt: {
+    description: 'Square root',
+    usage: 'sqrt(x)',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => Math.sqrt(x as number)
+  },
+  log2: {
+    description: 'Base-2 logarithm, handy for EV',
+    usage: 'log2(x)',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => Math.log2(x as number)
+  },
+  min: {
+    description: 'Smallest of the values',
+    usage: 'min(a, b, ...)',
+    params: ['number'],
+    minArgs: 1,
+    variadic: true,
+    returns: 'number',
+    apply: args => Math.min(...(args as number[]))
+  },
+  max: {
+    description: 'Largest of the values',
+    usage: 'max(a, b, ...)',
+    params: ['number'],
+    minArgs: 1,
+    variadic: true,
+    returns: 'number',
+    apply: args => Math.max(...(args as number[]))
+  },
+  fixed: {
+    description: 'Format with exactly N decimals',
+    usage: 'fixed(x, N)',
+    params: ['number', 'number'],
+    minArgs: 2,
+    returns: 'string',
+    apply: ([x, digits]) => (x as number).toFixed(Math.max(0, Math.min(10, digits as number)))
+  },
+  pad: {
+    description: 'Left-pad with zeros to N characters',
+    usage: 'pad(x, N)',
+    params: ['any', 'number'],
+    minArgs: 2,
+    returns: 'string',
+    apply: ([x, width]) => (formatExpressionValue(x) ?? '').padStart(Math.min(width as number, 255), '0')
+  },
+  lower: {
+    description: 'Lowercase',
+    usage: 'lower(s)',
+    params: ['string'],
+    minArgs: 1,
+    returns: 'string',
+    apply: ([s]) => (s as string).toLowerCase()
+  },
+  upper: {
+    description: 'Uppercase',
+    usage: 'upper(s)',
+    params: ['string'],
+    minArgs: 1,
+    returns: 'string',
+    apply: ([s]) => (s as string).toUpperCase()
+  },
+  len: {
+    description: 'Number of characters',
+    usage: 'len(s)',
+    params: ['string'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([s]) => (s as string).length
+  },
+  str: {
+    description: 'Convert to text',
+    usage: 'str(x)',
+    params: ['any'],
+    minArgs: 1,
+    returns: 'string',
+    apply: ([x]) => formatExpressionValue(x)
+  },
+  num: {
+    description: 'Convert text to a number',
+    usage: 'num(s)',
+    params: ['any'],
+    minArgs: 1,
+    returns: 'number',
+    apply: ([x]) => toNumber(x)
+  },
+  coalesce: {
+    description: 'First value that is available',
+    usage: 'coalesce(a, b, ...)',
+    params: ['any'],
+    minArgs: 1,
+    variadic: true,
+    acceptsNull: true,
+    returns: 'any',
+    apply: args => args.find(arg => arg !== null) ?? null
+  }
+};
+
+/**
+ * Parse and type-check an expression
+ * Errors carry their offset into the source so callers can point at them
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const errors: ExpressionError[] = [];
+
+  if (source.trim().length === 0) {
+    return { source, root: null, type: 'any', errors: [{ message: 'Empty expression', position: 0 }] };
+  }
+
+  const root = parseExpression(source, errors);
+  const type = root ? checkTypes(root, errors) : 'any';
+
+  return { source, root, type, errors };
+}
+
+/**
+ * Evaluate a compiled expression for one file
+ *
+ * @returns The value as filename text, or null when a field it needs is missing
+ */
+export function evaluateExpression(compiled: CompiledExpression, context: ResolverContext): string | null {
+  if (!compiled.root || compiled.errors.length > 0) return null;
+  return formatExpressionValue(evaluate(compiled.root, context));
+}
+
+export function formatExpressionValue(value: ExpressionValue): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'number') return String(value);
+  if (!Number.isFinite(value)) return null;
+
+  // Hide floating point noise such as 0.30000000000000004
+  return String(Number(value.toFixed(6)) || 0);
+}
+
+interface Lexeme {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  '<=', '>=', '==', '!=', '&&', '||',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ',', '|'
+];
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+function tokenize(source: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      lexemes.push({ kind: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_]\w*/.exec(source.slice(i));
+    if (identifier) {
+      lexemes.push({ kind: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+
+      if (i >= source.length) throw new ExpressionSyntaxError('Unterminated string', start);
+      lexemes.push({ kind: 'string', value, position: start });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      lexemes.push({ kind: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(
+      char === '=' ? 'Use "==" to compare values' : `Unexpected character "${char}"`,
+      i
+    );
+  }
+
+  lexemes.push({ kind: 'end', value: '', position: source.length });
+  return lexemes;
+}
+
+const BINARY_PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+// Deeper trees would overflow the stack while parsing, type-checking or evaluating
+const MAX_EXPRESSION_DEPTH = 200;
+
+// Precedence from lowest: "|" pipe, "? :", ||, &&, equality, comparison, + -, * / %, unary
+function parseExpression(source: string, errors: ExpressionError[]): ExpressionNode | null {
+  let lexemes: Lexeme[];
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => lexemes[index];
+  const isOperator = (value: string) => peek().kind === 'operator' && peek().value === value;
+  const expect = (value: string, message: string) => {
+    if (!isOperator(value)) throw new ExpressionSyntaxError(message, peek().position);
+    index++;
+  };
+  const descend = (position: number) => {
+    if (++depth > MAX_EXPRESSION_DEPTH) {
+      throw new ExpressionSyntaxError('Expression is nested too deeply', position);
+    }
+  };
+
+  const parsePipeline = (): ExpressionNode => {
+    const outer = depth;
+    let node = parseConditional();
+
+    while (isOperator('|')) {
+      descend(peek().position);
+      index++;
+      const name = peek();
+      if (name.kind !== 'identifier') {
+        throw new ExpressionSyntaxError('Expected a function name after "|"', name.position);
+      }
+      index++;
+
+      const args = isOperator('(') ? parseArguments() : [];
+      node = { kind: 'call', name: name.value, args: [node, ...args], position: name.position };
+    }
+
+    depth = outer;
+    return node;
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(0);
+    if (!isOperator('?')) return test;
+
+    const position = peek().position;
+    descend(position);
+    index++;
+    const consequent = parseConditional();
+    expect(':', 'Expected ":" in conditional');
+    const alternate = parseConditional();
+    depth--;
+
+    return { kind: 'conditional', test, consequent, alternate, position };
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+
+    const outer = depth;
+    let left = parseBinary(level + 1);
+
+    while (peek().kind === 'operator' && BINARY_PRECEDENCE[level].includes(peek().value as BinaryOperator)) {
+      const { value, position } = peek();
+      descend(position);
+      index++;
+      const right = parseBinary(level + 1);
+      left = { kind: 'binary', operator: value as BinaryOperator, left, right, position };
+    }
+
+    depth = outer;
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOperator('-') || isOperator('!')) {
+      const { value, position } = peek();
+      descend(position);
+      index++;
+      const operand = parseUnary();
+      depth--;
+      return { kind: 'unary', operator: value as '-' | '!', operand, position };
+    }
+
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const lexeme = peek();
+    index++;
+
+    switch (lexeme.kind) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(lexeme.value), position: lexeme.position };
+      case 'string':
+        return { kind: 'literal', value: lexeme.value, position: lexeme.position };
+      case 'identifier': {
+        if (lexeme.value === 'true' || lexeme.value === 'false') {
+          return { kind: 'literal', value: lexeme.value === 'true', position: lexeme.position };
+        }
+        if (lexeme.value === 'null') {
+          return { kind: 'literal', value: null, position: lexeme.position };
+        }
+        if (isOperator('(')) {
+          return { kind: 'call', name: lexeme.value, args: parseArguments(), position: lexeme.position };
+        }
+        return { kind: 'field', name: lexeme.value, position: lexeme.position };
+      }
+      case 'operator':
+        if (lexeme.value === '(') {
+          descend(lexeme.position);
+          const inner = parsePipeline();
+          expect(')', 'Expected ")"');
+          depth--;
+          return inner;
+        }
+        throw new ExpressionSyntaxError(`Unexpected "${lexeme.value}"`, lexeme.position);
+      default:
+        throw new ExpressionSyntaxError('Expression ends unexpectedly', lexeme.position);
+    }
+  };
+
+  const parseArguments = (): ExpressionNode[] => {
+    descend(peek().position);
+    expect('(', 'Expected "("');
+    const args: ExpressionNode[] = [];
+
+    if (!isOperator(')')) {
+      args.push(parsePipeline());
+      while (isOperator(',')) {
+        index++;
+        args.push(parsePipeline());
+      }
+    }
+
+    expect(')', 'Expected "," or ")" in argument list');
+    depth--;
+    return args;
+  };
+
+  try {
+    lexemes = tokenize(source);
+    const root = parsePipeline();
+
+    if (peek().kind !== 'end') {
+      throw new ExpressionSyntaxError(`Unexpected "${peek().value}"`, peek().position);
+    }
+
+    return root;
+  } catch (error) {
+    if (!(error instanceof ExpressionSyntaxError)) throw error;
+    errors.push({ message: error.message, position: error.position });
+    return null;
+  }
+}
+
+const ARITHMETIC_OPERATORS = new Set<BinaryOperator>(['-', '*', '/', '%']);
+const ORDERING_OPERATORS = new Set<BinaryOperator>(['<', '<=', '>', '>=']);
+
+function checkTypes(node: ExpressionNode, errors: ExpressionError[]): ExpressionType {
+  const report = (message: string, position = node.position): ExpressionType => {
+    errors.push({ message, position });
+    return 'any';
+  };
+  const compatible = (actual: ExpressionType, expected: ExpressionType) =>
+    actual === 'any' || expected === 'any' || actual === expected;
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value === null ? 'any' : typeof node.value as ExpressionType;
+
+    case 'field': {
+      if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FIELDS, node.name)) {
+        return report(`Unknown field "${node.name}"`);
+      }
+      return EXPRESSION_FIELDS[node.name].type;
+    }
+
+    case 'unary': {
+      const operand = checkTypes(node.operand, errors);
+      const expected = node.operator === '-' ? 'number' : 'boolean';
+      if (!compatible(operand, expected)) {
+        return report(`"${node.operator}" needs a ${expected}, got ${operand}`);
+      }
+      return expected;
+    }
+
+    case 'binary': {
+      const left = checkTypes(node.left, errors);
+      const right = checkTypes(node.right, errors);
+      const { operator } = node;
+
+      if (operator === '+') {
+        if (left === 'string' || right === 'string') {
+          return left === 'boolean' || right === 'boolean'
+            ? report('Cannot add a boolean to text')
+            : 'string';
+        }
+        if (!compatible(left, 'number') || !compatible(right, 'number')) {
+          return report(`"+" needs numbers or text, got ${left} and ${right}`);
+        }
+        return left === 'any' || right === 'any' ? 'any' : 'number';
+      }
+
+      if (ARITHMETIC_OPERATORS.has(operator)) {
+        if (!compatible(left, 'number') || !compatible(right, 'number')) {
+          return report(`"${operator}" needs numbers, got ${left} and ${right}`);
+        }
+        return 'number';
+      }
+
+      if (ORDERING_OPERATORS.has(operator)) {
+        if (!compatible(left, right) || left === 'boolean' || right === 'boolean') {
+          return report(`Cannot compare ${left} with ${right} using "${operator}"`);
+        }
+        return 'boolean';
+      }
+
+      if (operator === '==' || operator === '!=') {
+        if (!compatible(left, right)) {
+          return report(`Cannot compare ${left} with ${right}`);
+        }
+        return 'boolean';
+      }
+
+      if (!compatible(left, 'boolean') || !compatible(right, 'boolean')) {
+        return report(`"${operator}" needs true/false values, got ${left} and ${right}`);
+      }
+      return 'boolean';
+    }
+
+    case 'conditional': {
+      const test = checkTypes(node.test, errors);
+      const consequent = checkTypes(node.consequent, errors);
+      const alternate = checkTypes(node.alternate, errors);
+
+      if (!compatible(test, 'boolean')) {
+        report(`Condition before "?" must be true/false, got ${test}`, node.test.position);
+      }
+      return consequent === alternate ? consequent : 'any';
+    }
+
+    case 'call': {
+      const argTypes = node.args.map(arg => checkTypes(arg, errors));
+
+      if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, node.name)) {
+        return report(`Unknown function "${node.name}"`);
+      }
+
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      const maxArgs = fn.variadic ? Infinity : fn.params.length;
+
+      if (argTypes.length < fn.minArgs || argTypes.length > maxArgs) {
+        return report(`${node.name}() takes ${describeArity(fn)}, got ${argTypes.length} (usage: ${fn.usage})`);
+      }
+
+      argTypes.forEach((type, i) => {
+        const expected = fn.params[Math.min(i, fn.params.length - 1)];
+        if (!compatible(type, expected)) {
+          report(`${node.name}() expects a ${expected} for argument ${i + 1}, got ${type}`, node.args[i].position);
+        }
+      });
+
+      return fn.returns;
+    }
+  }
+}
+
+function describeArity(fn: FunctionDefinition): string {
+  if (fn.variadic) return `at least ${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+  if (fn.minArgs === fn.params.length) return `${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+  return `${fn.minArgs} to ${fn.params.length} arguments`;
+}
+
+// Missing values (null) propagate, so a photo without the data gets no value rather than a wrong one
+function evaluate(node: ExpressionNode, context: ResolverContext): ExpressionValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return EXPRESSION_FIELDS[node.name].read(context);
+
+    case 'unary': {
+      const operand = evaluate(node.operand, context);
+      if (operand === null) return null;
+      if (node.operator === '-') return typeof operand === 'number' ? -operand : null;
+      return typeof operand === 'boolean' ? !operand : null;
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, context);
+
+    case 'conditional': {
+      const test = evaluate(node.test, context);
+      if (typeof test !== 'boolean') return null;
+      return evaluate(test ? node.consequent : node.alternate, context);
+    }
+
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      const args = node.args.map(arg => evaluate(arg, context));
+
+      if (!fn.acceptsNull && args.some(arg => arg === null)) return null;
+      if (args.some((arg, i) => !matchesType(arg, fn.params[Math.min(i, fn.params.length - 1)]))) {
+        return null;
+      }
+
+      const result = fn.apply(args);
+      return typeof result === 'number' && !Number.isFinite(result) ? null : result;
+    }
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  context: ResolverContext
+): ExpressionValue {
+  const left = evaluate(leftNode, context);
+
+  if (operator === '&&' || operator === '||') {
+    if (typeof left !== 'boolean') return null;
+    if (operator === '&&' ? !left : left) return left;
+
+    const right = evaluate(rightNode, context);
+    return typeof right === 'boolean' ? right : null;
+  }
+
+  const right = evaluate(rightNode, context);
+
+  if (operator === '==') return left === right;
+  if (operator === '!=') return left !== right;
+  if (left === null || right === null) return null;
+
+  if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+    return `${formatExpressionValue(left) ?? ''}${formatExpressionValue(right) ?? ''}`;
+  }
+
+  if (ORDERING_OPERATORS.has(operator)) {
+    if (typeof left !== typeof right || typeof left === 'boolean') return null;
+
+    // Same primitive type on both sides, so strings compare alphabetically
+    const [a, b] = [left as number, right as number];
+    switch (operator) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      default: return a >= b;
+    }
+  }
+
+  if (typeof left !== 'number' || typeof right !== 'number') return null;
+
+  let result: number;
+  switch (operator) {
+    case '+': result = left + right; break;
+    case '-': result = left - right; break;
+    case '*': result = left * right; break;
+    case '/': result = left / right; break;
+    default: result = left % right;
+  }
+
+  return Number.isFinite(result) ? result : null;
+}
+
+function matchesType(value: ExpressionValue, type: ExpressionType): boolean {
+  return type === 'any' || value === null || typeof value === type;
+}
+
+function toNumber(value: ExpressionValue | undefined): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  // Exposure times are sometimes stored as "1/250"
+  const fraction = /^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/.exec(value);
+  if (fraction) return parseFloat(fraction[1]) / parseFloat(fraction[2]) || null;
+
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
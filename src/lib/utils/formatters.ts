@@ -63,7 +63,9 @@ export function formatTime(date: Date, includeSeconds: boolean = true): string {
   return `${hours}:${minutes}:${seconds}`;
 }
 
-export function formatDatePattern(date: Date, pattern: string): string {
+const DATE_PATTERN_REGEX = /YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|mm|m|ss|s/g;
+
+export function formatDatePattern(date: Date, pattern: string, locale: string = 'en-US'): string {
   const year = date.getFullYear();
   const month = date.getMonth() + 1;
   const day = date.getDate();
@@ -71,19 +73,95 @@ export function formatDatePattern(date: Date, pattern: string): string {
   const minutes = date.getMinutes();
   const seconds = date.getSeconds();
   
-  return pattern
-    .replace(/YYYY/g, String(year))
-    .replace(/YY/g, String(year).slice(-2))
-    .replace(/MM/g, padNumber(month, 2))
-    .replace(/M/g, String(month))
-    .replace(/DD/g, padNumber(day, 2))
-    .replace(/D/g, String(day))
-    .replace(/HH/g, padNumber(hours, 2))
-    .replace(/H/g, String(hours))
-    .replace(/mm/g, padNumber(minutes, 2))
-    .replace(/m/g, String(minutes))
-    .replace(/ss/g, padNumber(seconds, 2))
-    .replace(/s/g, String(seconds));
+  // Single pass so that substituted month/weekday names are never re-scanned
+  return pattern.replace(DATE_PATTERN_REGEX, (field) => {
+    switch (field) {
+      case 'YYYY': return String(year);
+      case 'YY': return String(year).slice(-2);
+      case 'MMMM': return new Intl.DateTimeFormat(locale, { month: 'long' }).format(date);
+      case 'MMM': return new Intl.DateTimeFormat(locale, { month: 'short' }).format(date);
+      case 'MM': return padNumber(month, 2);
+      case 'M': return String(month);
+      case 'dddd': return new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(date);
+      case 'ddd': return new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(date);
+      case 'DD': return padNumber(day, 2);
+      case 'D': return String(day);
+      case 'HH': return padNumber(hours, 2);
+      case 'H': return String(hours);
+      case 'mm': return padNumber(minutes, 2);
+      case 'm': return String(minutes);
+      case 'ss': return padNumber(seconds, 2);
+      default: return String(seconds);
+    }
+  });
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns a Date whose local fields (getHours, getDate...) show the wall-clock
+ * time of the given instant in an IANA timezone
+ */
+export function toTimeZone(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  return new Date(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Parse an EXIF offset such as "+02:00" or "-0530" into minutes east of UTC
+ */
+export function parseUtcOffset(offset: string | null | undefined): number | null {
+  const match = offset?.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return null;
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Treat the local fields of a Date as wall-clock time at a UTC offset and
+ * return the real instant
+ */
+export function applyUtcOffset(wallClock: Date, offsetMinutes: number): Date {
+  const utc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+
+  return new Date(utc - offsetMinutes * 60_000);
 }
 
 export function formatDateLocale(date: Date, options: DateFormatOptions = {}): string {
@@ -307,6 +385,28 @@ export function formatDurationClock(ms: number, includeHours: boolean = false):
   return `${padNumber(minutes, 2)}:${padNumber(seconds, 2)}`;
 }
 
+/**
+ * Format a signed clock offset as "+HH:MM:SS" (days are folded into hours)
+ */
+export function formatClockOffset(ms: number): string {
+  const sign = ms < 0 ? '-' : '+';
+  return sign + formatDurationClock(Math.abs(ms), true);
+}
+
+/**
+ * Parse "+HH:MM:SS", "-MM:SS" or a plain number of seconds into milliseconds
+ */
+export function parseClockOffset(input: string): number | null {
+  const match = input.trim().match(/^([+-])?(?:(\d+):)?(?:(\d+):)?(\d+)$/);
+  if (!match) return null;
+
+  const [, sign, first, second, last] = match;
+  const parts = [first, second, last].filter((part): part is string => part !== undefined);
+  const seconds = parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+
+  return (sign === '-' ? -seconds : seconds) * 1000;
+}
+
 export function truncateText(text: string, maxLength: number, ellipsis: string = '...'): string {
   if (text.length <= maxLength) {
     return text;
@@ -0,0 +1,86 @@
+import type { ExifData } from '../types/exif';
+import type { RenameSortOrder } from '../types/template';
+
+export interface SortableFile {
+  name: string;
+  lastModified: number;
+  exifData: ExifData | null;
+}
+
+export const RENAME_SORT_ORDERS: Record<RenameSortOrder, string> = {
+  added: 'Order added',
+  captureTime: 'Capture time',
+  filename: 'Filename',
+  modified: 'File modified time',
+  cameraTime: 'Camera, then capture time'
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Sort items into the order counters are assigned in
+ * Ties always fall back to a natural filename sort and then the original
+ * position, so the same input produces the same numbering every time
+ *
+ * @param items - Files, photos or anything that can describe itself as a file
+ * @param order - Sort key; "added" keeps the input order
+ * @param describe - Maps an item to the fields the sort keys read
+ */
+export function sortForRenaming<T>(
+  items: T[],
+  order: RenameSortOrder = 'added',
+  describe: (item: T) => SortableFile
+): T[] {
+  if (order === 'added') return items;
+
+  const entries = items.map((item, index) => ({ item, index, file: describe(item) }));
+
+  entries.sort((a, b) =>
+    compareByOrder(a.file, b.file, order) ||
+    collator.compare(a.file.name, b.file.name) ||
+    a.index - b.index
+  );
+
+  return entries.map(entry => entry.item);
+}
+
+function compareByOrder(a: SortableFile, b: SortableFile, order: RenameSortOrder): number {
+  switch (order) {
+    case 'captureTime':
+      return compareCaptureTime(a, b);
+    case 'filename':
+      return collator.compare(a.name, b.name) || a.lastModified - b.lastModified;
+    case 'modified':
+      return a.lastModified - b.lastModified;
+    case 'cameraTime':
+      return compareCamera(a, b) || compareCaptureTime(a, b);
+    default:
+      return 0;
+  }
+}
+
+// Files without a capture time go last, ordered by their modified time
+function compareCaptureTime(a: SortableFile, b: SortableFile): number {
+  const aTime = a.exifData?.dateTaken?.getTime();
+  const bTime = b.exifData?.dateTaken?.getTime();
+
+  if (aTime === undefined || bTime === undefined) {
+    if (aTime !== bTime) return aTime === undefined ? 1 : -1;
+    return a.lastModified - b.lastModified;
+  }
+
+  return aTime - bTime;
+}
+
+// Files without camera information go last
+function compareCamera(a: SortableFile, b: SortableFile): number {
+  const aName = cameraName(a);
+  const bName = cameraName(b);
+
+  if (!aName || !bName) return aName === bName ? 0 : aName ? -1 : 1;
+  return collator.compare(aName, bName);
+}
+
+function cameraName({ exifData }: SortableFile): string {
+  return [exifData?.make, exifData?.model, exifData?.serialNumber].filter(Boolean).join(' ');
+}
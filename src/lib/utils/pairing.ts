@@ -0,0 +1,215 @@
+import type { PairMatch, Photo } from '../types/photo';
+import type { AttachedFiles, RenameResult } from '../types/template';
+import { getRawFormatFromName } from './raw';
+import { getSidecarFilename } from './sidecars';
+import { isVideoFile } from './video';
+
+// One way of matching files: photos with the same key pair when exactly one is each kind
+interface PairPass {
+  pairedBy: PairMatch;
+  getKey: (photo: Photo) => string | null;
+  isCompanion: (photo: Photo) => boolean;
+  isPrimary: (photo: Photo) => boolean;
+}
+
+const PAIR_PASSES: PairPass[] = [
+  { pairedBy: 'stem', getKey: getStemKey, isCompanion: isRawPhoto, isPrimary: isStillPhoto },
+  { pairedBy: 'capture', getKey: getCaptureKey, isCompanion: isRawPhoto, isPrimary: isStillPhoto },
+  { pairedBy: 'live', getKey: getLiveKey, isCompanion: isVideoPhoto, isPrimary: photo => !isVideoPhoto(photo) }
+];
+
+/**
+ * Merge the RAW and JPEG (or HEIC) files of one shot into a single photo
+ * Files pair by folder and stem first; what is left pairs by capture time
+ * and camera serial number. The viewable file stays the photo's own file and
+ * the RAW becomes its companion. Groups with more than one candidate on
+ * either side are ambiguous and left alone.
+ * A Live Photo's still and clip pair the same way by their content identifier,
+ * with the clip as the companion, so both keep one name.
+ *
+ * @returns The photos with each pair's RAW or clip folded into its partner, or the same array when nothing paired
+ */
+export function pairPhotos(photos: Photo[]): Photo[] {
+  const unpaired = photos.filter(photo => !photo.companions?.length);
+
+  return mergePairs(photos, PAIR_PASSES.map(pass => ({
+    pass,
+    groups: Array.from(groupBy(unpaired, pass.getKey).values())
+  })));
+}
+
+/**
+ * Pair a photo whose EXIF has just loaded, looking only at the photos that share its keys
+ * Files with the same name were paired when they were added, so only capture time
+ * and the Live Photo content identifier can find it a partner now
+ *
+ * @returns The photos with the pair merged, or the same array when the photo found no partner
+ */
+export function pairPhoto(photos: Photo[], id: string): Photo[] {
+  const photo = photos.find(candidate => candidate.id === id);
+  if (!photo || photo.companions?.length) return photos;
+
+  const unpaired = photos.filter(candidate => !candidate.companions?.length);
+  return mergePairs(photos, PAIR_PASSES
+    .filter(pass => pass.pairedBy !== 'stem')
+    .map(pass => {
+      const key = pass.getKey(photo);
+      return {
+        pass,
+        groups: key === null ? [] : [unpaired.filter(candidate => pass.getKey(candidate) === key)]
+      };
+    }));
+}
+
+export function isRawPhoto(photo: Photo): boolean {
+  return getRawFormatFromName(photo.file.name) !== null;
+}
+
+export function isVideoPhoto(photo: Photo): boolean {
+  return isVideoFile(photo.file);
+}
+
+function isStillPhoto(photo: Photo): boolean {
+  return !isRawPhoto(photo) && !isVideoPhoto(photo);
+}
+
+/**
+ * Photos only links a Live Photo's still and clip while their names match,
+ * so a half whose partner is missing from the batch is worth a warning
+ *
+ * @returns The warning for an unpaired half, or null
+ */
+export function getLivePhotoWarning(photo: Photo): string | null {
+  if (!photo.metadata.exif?.contentIdentifier || photo.pairedBy === 'live') return null;
+
+  return isVideoPhoto(photo)
+    ? 'Live Photo still not found; Photos will not link this clip once it is renamed'
+    : 'Live Photo clip not found; Photos will not link this still once it is renamed';
+}
+
+/**
+ * Name a companion file after its photo's new name, keeping its own extension
+ * "Smith_001.jpg" gives "Smith_001.CR2" for IMG_0001.CR2
+ */
+export function getCompanionFilename(photo: Pick<Photo, 'file'>, filename: string, companion: File): string {
+  const ownExtension = getExtension(photo.file.name);
+  const stem = ownExtension && filename.toLowerCase().endsWith(ownExtension.toLowerCase())
+    ? filename.slice(0, -ownExtension.length)
+    : filename;
+
+  return `${stem}${getExtension(companion.name)}`;
+}
+
+/**
+ * New names of the files that follow a photo, companions and sidecars, derived from the photo's new name
+ */
+export function getAttachedFilenames(attached: AttachedFiles, filename: string): Map<File, string> {
+  return new Map([
+    ...(attached.companions ?? []).map((companion): [File, string] => [
+      companion,
+      getCompanionFilename(attached, filename, companion)
+    ]),
+    ...(attached.sidecars ?? []).map((sidecar): [File, string] => [
+      sidecar,
+      getSidecarFilename(attached, filename, sidecar)
+    ])
+  ]);
+}
+
+/**
+ * Every file to export for the photos, companions and sidecars included, with the result naming each
+ * Those extra files share their photo's result apart from the filename and whether a later file
+ * replaces them, and follow it in the archive
+ */
+export function getExportFiles(
+  photos: Photo[],
+  results: Map<string, RenameResult>
+): Map<File, RenameResult> {
+  const files = new Map<File, RenameResult>();
+
+  photos.forEach(photo => {
+    const result = results.get(photo.id);
+    if (!result) return;
+
+    files.set(photo.file, result);
+    getAttachedFilenames(photo, result.filename).forEach((filename, attached) => {
+      const overwritten = result.metadata?.overwrittenNames?.includes(filename);
+      files.set(attached, { ...result, filename, metadata: result.metadata && { ...result.metadata, overwritten } });
+    });
+  });
+
+  return files;
+}
+
+// Runs the passes in order; a photo paired by one pass is out of the later ones
+function mergePairs(photos: Photo[], passes: { pass: PairPass; groups: Photo[][] }[]): Photo[] {
+  const paired = new Map<string, Photo>(); // Primary id → primary with its companion
+  const absorbed = new Set<string>();
+
+  passes.forEach(({ pass, groups }) => {
+    groups.forEach(group => {
+      const candidates = group.filter(photo => !paired.has(photo.id) && !absorbed.has(photo.id));
+      const companions = candidates.filter(pass.isCompanion);
+      const primaries = candidates.filter(pass.isPrimary);
+      if (companions.length !== 1 || primaries.length !== 1) return;
+
+      const [companion] = companions;
+      const [primary] = primaries;
+      const sidecars = [...(primary.sidecars ?? []), ...(companion.sidecars ?? [])];
+      paired.set(primary.id, {
+        ...primary,
+        companions: [companion.file],
+        pairedBy: pass.pairedBy,
+        sidecars: sidecars.length > 0 ? sidecars : undefined
+      });
+      absorbed.add(companion.id);
+    });
+  });
+
+  if (paired.size === 0) return photos;
+
+  return photos
+    .filter(photo => !absorbed.has(photo.id))
+    .map(photo => paired.get(photo.id) ?? photo);
+}
+
+// Same folder and filename without extension, e.g. "Day1\u0000img_0001"
+function getStemKey(photo: Photo): string {
+  const path = photo.metadata.relativePath ?? '';
+  const folder = path.slice(0, path.lastIndexOf('/') + 1);
+  const name = photo.metadata.originalFileName;
+  const stem = name.slice(0, name.length - getExtension(name).length);
+
+  return `${folder}\u0000${stem.toLowerCase()}`;
+}
+
+// Both halves of a pair carry the same capture time, to the sub-second when the camera writes it
+function getCaptureKey(photo: Photo): string | null {
+  const exif = photo.metadata.exif;
+  if (!exif?.dateTaken || !exif.serialNumber) return null;
+
+  return `${exif.serialNumber}\u0000${exif.dateTaken.getTime()}`;
+}
+
+// The still's maker note and the clip's QuickTime keys carry the same identifier
+function getLiveKey(photo: Photo): string | null {
+  return photo.metadata.exif?.contentIdentifier ?? null;
+}
+
+function groupBy(photos: Photo[], getKey: (photo: Photo) => string | null): Map<string, Photo[]> {
+  const groups = new Map<string, Photo[]>();
+
+  photos.forEach(photo => {
+    const key = getKey(photo);
+    if (key === null) return;
+    groups.set(key, [...(groups.get(key) ?? []), photo]);
+  });
+
+  return groups;
+}
+
+// ".jpg" with the dot, or "" when there is none
+function getExtension(filename: string): string {
+  const lastDot = filename.lastIndexOf('.');
+  return lastDot > 0 ? filename.slice(lastDot) : '';
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectRawFormat, findEmbeddedJpeg, readCr3Exif, type RawFormat } from './raw';
+
+// Minimal files with the header, IFD0 and metadata layout of each format; no image data
+function readFixture(name: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(readFileSync(new URL(`./__fixtures__/raw/${name}`, import.meta.url)));
+}
+
+async function readBytes(blob: Blob): Promise<number[]> {
+  return Array.from(new Uint8Array(await blob.arrayBuffer()));
+}
+
+describe('detectRawFormat', () => {
+  it.each<[string, RawFormat]>([
+    ['sample.cr2', 'cr2'],
+    ['sample.cr3', 'cr3'],
+    ['sample.nef', 'nef'],
+    ['sample.arw', 'arw'],
+    ['sample.dng', 'dng'],
+    ['sample.raf', 'raf'],
+    ['sample.orf', 'orf'],
+    ['sample.rw2', 'rw2']
+  ])('identifies %s as %s', (name, format) => {
+    expect(detectRawFormat(readFixture(name))).toBe(format);
+  });
+
+  it('does not take a truncated TIFF for a RAW file', () => {
+    expect(detectRawFormat(readFixture('sample.nef').slice(0, 12))).toBeNull();
+  });
+});
+
+describe('findEmbeddedJpeg', () => {
+  it.each<[string, RawFormat]>([
+    ['sample.raf', 'raf'],
+    ['sample.rw2', 'rw2']
+  ])('finds the preview JPEG in %s', async (name, format) => {
+    const jpeg = await findEmbeddedJpeg(new Blob([readFixture(name)]), format);
+    const bytes = await readBytes(jpeg!);
+
+    expect(jpeg!.type).toBe('image/jpeg');
+    expect(bytes.slice(0, 2)).toEqual([0xFF, 0xD8]);
+    expect(bytes.slice(-2)).toEqual([0xFF, 0xD9]);
+  });
+
+  it.each<[string, RawFormat]>([
+    ['sample.raf', 'raf'],
+    ['sample.rw2', 'rw2']
+  ])('returns null when %s is cut short', async (name, format) => {
+    const bytes = readFixture(name);
+    expect(await findEmbeddedJpeg(new Blob([bytes.slice(0, bytes.length - 10)]), format)).toBeNull();
+  });
+});
+
+describe('readCr3Exif', () => {
+  it('reads IFD0, Exif and GPS from the Canon metadata boxes', async () => {
+    const exif = await readCr3Exif(new Blob([readFixture('sample.cr3')]));
+
+    expect(exif).toMatchObject({
+      Make: 'Canon',
+      Model: 'Canon EOS R5',
+      ISO: 400,
+      FNumber: 2.8,
+      BodySerialNumber: '012345',
+      DateTimeOriginal: new Date(2024, 5, 1, 14, 5, 9),
+      GPSLatitude: 52.5,
+      GPSLongitude: -1.25
+    });
+  });
+
+  it('returns null when the file ends inside the moov box', async () => {
+    const bytes = readFixture('sample.cr3');
+    expect(await readCr3Exif(new Blob([bytes.slice(0, 100)]))).toBeNull();
+  });
+
+  it('returns null for a file without Canon metadata', async () => {
+    expect(await readCr3Exif(new Blob([readFixture('sample.rw2')]))).toBeNull();
+  });
+});
@@ -0,0 +1,348 @@
+import { findTopLevelBox, readBoxes } from './bmff';
+
+export type RawFormat = 'cr2' | 'cr3' | 'nef' | 'arw' | 'raf' | 'orf' | 'rw2' | 'dng';
+
+export interface RawFormatInfo {
+  name: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const RAW_FORMATS: Record<RawFormat, RawFormatInfo> = {
+  cr2: { name: 'Canon CR2', mimeType: 'image/x-canon-cr2', extension: '.cr2' },
+  cr3: { name: 'Canon CR3', mimeType: 'image/x-canon-cr3', extension: '.cr3' },
+  nef: { name: 'Nikon NEF', mimeType: 'image/x-nikon-nef', extension: '.nef' },
+  arw: { name: 'Sony ARW', mimeType: 'image/x-sony-arw', extension: '.arw' },
+  raf: { name: 'Fujifilm RAF', mimeType: 'image/x-fuji-raf', extension: '.raf' },
+  orf: { name: 'Olympus ORF', mimeType: 'image/x-olympus-orf', extension: '.orf' },
+  rw2: { name: 'Panasonic RW2', mimeType: 'image/x-panasonic-rw2', extension: '.rw2' },
+  dng: { name: 'Adobe DNG', mimeType: 'image/x-adobe-dng', extension: '.dng' }
+};
+
+// Formats with a fixed header; NEF, ARW and DNG are plain TIFF and told apart by their IFD0 tags
+export const RAW_SIGNATURES = {
+  cr2: [
+    [0x49, 0x49, 0x2A, 0x00, null, null, null, null, 0x43, 0x52, 0x02]
+  ],
+  cr3: [
+    [null, null, null, null, 0x66, 0x74, 0x79, 0x70, 0x63, 0x72, 0x78, 0x20]
+  ],
+  raf: [
+    [0x46, 0x55, 0x4A, 0x49, 0x46, 0x49, 0x4C, 0x4D]
+  ],
+  orf: [
+    [0x49, 0x49, 0x52, 0x4F],
+    [0x49, 0x49, 0x52, 0x53],
+    [0x4D, 0x4D, 0x4F, 0x52]
+  ],
+  rw2: [
+    [0x49, 0x49, 0x55, 0x00]
+  ]
+} as const;
+
+const TIFF_SIGNATURES = [
+  [0x49, 0x49, 0x2A, 0x00],
+  [0x4D, 0x4D, 0x00, 0x2A]
+] as const;
+
+// Enough for IFD0 of every TIFF-based RAW and for the RW2 preview pointer
+const SNIFF_LENGTH = 64 * 1024;
+const MAX_MOOV_SIZE = 16 * 1024 * 1024;
+const MAX_TAG_BYTES = 64 * 1024;
+
+const TAG_DNG_VERSION = 0xC612;
+const TAG_MAKE = 0x010F;
+const TAG_RW2_JPEG = 0x002E;
+
+const CANON_UUID = '85c0b687820f11e08111f4ce462b6a48';
+
+const IFD0_TAGS: Record<number, string> = {
+  0x0100: 'ImageWidth',
+  0x0101: 'ImageHeight',
+  0x010F: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'ModifyDate',
+  0x013B: 'Artist',
+  0x8298: 'Copyright'
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829A: 'ExposureTime',
+  0x829D: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'CreateDate',
+  0x9010: 'OffsetTime',
+  0x9011: 'OffsetTimeOriginal',
+  0x9209: 'Flash',
+  0x920A: 'FocalLength',
+  0x9291: 'SubSecTimeOriginal',
+  0xA001: 'ColorSpace',
+  0xA002: 'ExifImageWidth',
+  0xA003: 'ExifImageHeight',
+  0xA403: 'WhiteBalance',
+  0xA431: 'BodySerialNumber',
+  0xA433: 'LensMake',
+  0xA434: 'LensModel'
+};
+
+const DATE_TAGS = new Set(['ModifyDate', 'DateTimeOriginal', 'CreateDate']);
+
+// Bytes per value for the TIFF field types, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+export type TiffValue = number | number[] | string;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number; // From the start of the TIFF header
+}
+
+/**
+ * Identify a RAW container from the first bytes of a file
+ * Pass at least 64 KB so IFD0 of TIFF-based formats can be inspected
+ *
+ * @returns The format, or null for anything that is not a known RAW file
+ */
+export function detectRawFormat(header: Uint8Array): RawFormat | null {
+  const formats = Object.keys(RAW_SIGNATURES) as (keyof typeof RAW_SIGNATURES)[];
+  const fixed = formats.find(format => matchesBytes(header, RAW_SIGNATURES[format]));
+  if (fixed) return fixed;
+
+  if (!matchesBytes(header, TIFF_SIGNATURES)) return null;
+
+  const entries = readIfdEntries(header);
+  if (entries.some(entry => entry.tag === TAG_DNG_VERSION)) return 'dng';
+
+  const makeEntry = entries.find(entry => entry.tag === TAG_MAKE);
+  const make = makeEntry ? String(readEntryValue(header, makeEntry) ?? '').toUpperCase() : '';
+
+  if (make.startsWith('NIKON')) return 'nef';
+  if (make.startsWith('SONY')) return 'arw';
+  if (make.startsWith('CANON')) return 'cr2';
+  return null;
+}
+
+export async function sniffRawFormat(file: Blob): Promise<RawFormat | null> {
+  const header = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  return detectRawFormat(header);
+}
+
+export function getRawFormatFromName(filename: string): RawFormat | null {
+  const extension = filename.slice(filename.lastIndexOf('.')).toLowerCase();
+  const formats = Object.keys(RAW_FORMATS) as RawFormat[];
+  return formats.find(format => RAW_FORMATS[format].extension === extension) ?? null;
+}
+
+export function getRawFormatFromMimeType(mimeType: string): RawFormat | null {
+  const normalized = mimeType.toLowerCase();
+  const formats = Object.keys(RAW_FORMATS) as RawFormat[];
+  return formats.find(format => RAW_FORMATS[format].mimeType === normalized) ?? null;
+}
+
+/**
+ * Locate the full-size JPEG that RAF and RW2 files embed
+ * exifr cannot read those containers, but the JPEG carries the complete EXIF
+ */
+export async function findEmbeddedJpeg(file: Blob, format: RawFormat): Promise<Blob | null> {
+  const header = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  let offset = 0;
+  let length = 0;
+
+  if (format === 'raf' && header.length >= 92) {
+    // Big-endian offset and length of the JPEG follow the fixed 84-byte RAF header
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    offset = view.getUint32(84);
+    length = view.getUint32(88);
+  } else if (format === 'rw2') {
+    const entry = readIfdEntries(header).find(e => e.tag === TAG_RW2_JPEG);
+    if (entry) {
+      offset = entry.valueOffset;
+      length = entry.count;
+    }
+  }
+
+  if (!offset || !length || offset + length > file.size) return null;
+  return file.slice(offset, offset + length, 'image/jpeg');
+}
+
+/**
+ * Read CR3 metadata, which lives in Canon's uuid box inside moov
+ * CMT1 to CMT4 each hold a complete TIFF: IFD0, the Exif IFD, maker notes and GPS
+ *
+ * @returns exifr-style fields, or null when the file has no Canon metadata box
+ */
+export async function readCr3Exif(file: Blob): Promise<Record<string, unknown> | null> {
+  const moov = await findTopLevelBox(file, 'moov');
+  if (!moov || moov.end - moov.start > MAX_MOOV_SIZE) return null;
+
+  const bytes = new Uint8Array(await file.slice(moov.start, moov.end).arrayBuffer());
+  const canon = readBoxes(bytes, 0, bytes.length).find(
+    box => box.type === 'uuid' && toHex(bytes.subarray(box.start, box.start + 16)) === CANON_UUID
+  );
+  if (!canon) return null;
+
+  const children = readBoxes(bytes, canon.start + 16, canon.end);
+  const content = (type: string) => {
+    const box = children.find(child => child.type === type);
+    return box ? bytes.subarray(box.start, box.end) : null;
+  };
+
+  const ifd0 = content('CMT1');
+  const exif = content('CMT2');
+  if (!ifd0 && !exif) return null;
+
+  return {
+    ...(ifd0 ? nameTags(ifd0, IFD0_TAGS) : {}),
+    ...(exif ? nameTags(exif, EXIF_TAGS) : {}),
+    ...readGps(content('CMT4'))
+  };
+}
+
+/**
+ * Read IFD0 of a TIFF structure into tag id → value
+ * Only the field types cameras use for metadata are decoded
+ */
+export function readTiffTags(bytes: Uint8Array): Map<number, TiffValue> {
+  const tags = new Map<number, TiffValue>();
+
+  readIfdEntries(bytes).forEach(entry => {
+    const value = readEntryValue(bytes, entry);
+    if (value !== null) tags.set(entry.tag, value);
+  });
+
+  return tags;
+}
+
+function readIfdEntries(bytes: Uint8Array): IfdEntry[] {
+  if (bytes.length < 8) return [];
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = view.getUint16(0) === 0x4949;
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > bytes.length) return [];
+
+  const entries: IfdEntry[] = [];
+  const count = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const position = ifdOffset + 2 + i * 12;
+    if (position + 12 > bytes.length) break;
+
+    const type = view.getUint16(position + 2, littleEndian);
+    const valueCount = view.getUint32(position + 4, littleEndian);
+    const inline = (TYPE_SIZES[type] ?? 0) * valueCount <= 4;
+
+    entries.push({
+      tag: view.getUint16(position, littleEndian),
+      type,
+      count: valueCount,
+      valueOffset: inline ? position + 8 : view.getUint32(position + 8, littleEndian)
+    });
+  }
+
+  return entries;
+}
+
+function readEntryValue(bytes: Uint8Array, entry: IfdEntry): TiffValue | null {
+  const size = TYPE_SIZES[entry.type];
+  const byteLength = (size ?? 0) * entry.count;
+  if (!size || byteLength > MAX_TAG_BYTES || entry.valueOffset + byteLength > bytes.length) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = view.getUint16(0) === 0x4949;
+
+  if (entry.type === 2) {
+    const text = bytes.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    const end = text.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? text : text.subarray(0, end)).trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const position = entry.valueOffset + i * size;
+
+    switch (entry.type) {
+      case 3:
+        values.push(view.getUint16(position, littleEndian));
+        break;
+      case 4:
+        values.push(view.getUint32(position, littleEndian));
+        break;
+      case 9:
+        values.push(view.getInt32(position, littleEndian));
+        break;
+      case 5:
+      case 10: {
+        const read = entry.type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const denominator = read(position + 4, littleEndian);
+        values.push(denominator ? read(position, littleEndian) / denominator : 0);
+        break;
+      }
+      default:
+        values.push(bytes[position]);
+    }
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
+
+function nameTags(bytes: Uint8Array, names: Record<number, string>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  readTiffTags(bytes).forEach((value, tag) => {
+    const name = names[tag];
+    if (!name) return;
+    fields[name] = DATE_TAGS.has(name) && typeof value === 'string' ? parseTiffDate(value) ?? value : value;
+  });
+
+  return fields;
+}
+
+// Converts the degree/minute/second rationals to signed decimals, matching exifr's output
+function readGps(bytes: Uint8Array | null): Record<string, unknown> {
+  if (!bytes) return {};
+
+  const tags = readTiffTags(bytes);
+  const toDecimal = (value: TiffValue | undefined, ref: TiffValue | undefined, negative: string) => {
+    if (!Array.isArray(value) || value.length !== 3) return undefined;
+    const [degrees, minutes, seconds] = value;
+    const decimal = degrees + minutes / 60 + seconds / 3600;
+    return ref === negative ? -decimal : decimal;
+  };
+
+  const altitude = tags.get(0x0006);
+  const fields = {
+    GPSLatitude: toDecimal(tags.get(0x0002), tags.get(0x0001), 'S'),
+    GPSLongitude: toDecimal(tags.get(0x0004), tags.get(0x0003), 'W'),
+    GPSAltitude: typeof altitude === 'number' ? (tags.get(0x0005) === 1 ? -altitude : altitude) : undefined
+  };
+
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+// "YYYY:MM:DD HH:MM:SS" in camera local time, as exifr revives it
+function parseTiffDate(value: string): Date | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function matchesBytes(bytes: Uint8Array, signatures: readonly (readonly (number | null)[])[]): boolean {
+  return signatures.some(signature =>
+    signature.every((byte, index) => byte === null || bytes[index] === byte)
+  );
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
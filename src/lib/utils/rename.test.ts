@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { makeFile, makePhoto } from './__fixtures__/photos';
+import {
+  applyReplaceRules,
+  batchRename,
+  batchReplace,
+  generateFilename,
+  getTemplateVariables,
+  renamePhotos,
+  validateTemplate
+} from './rename';
+
+describe('batchRename', () => {
+  it('does not number photos with a hand-typed name', () => {
+    const files = ['IMG_1.jpg', 'IMG_2.jpg', 'IMG_3.jpg', 'IMG_4.jpg'].map(name => makeFile(name));
+    const { results } = batchRename(files, 'Trip_{counter}', new Map(), {
+      sortOrder: 'filename',
+      nameOverrides: new Map([[files[1], { kind: 'name', value: 'Hand' }]])
+    });
+
+    expect(files.map(file => results.get(file)!.filename)).toEqual([
+      'Trip_001.jpg',
+      'Hand.jpg',
+      'Trip_002.jpg',
+      'Trip_003.jpg'
+    ]);
+  });
+
+  it('renders matching files with their rule\'s template and records the rule', () => {
+    const files = [makeFile('scan.png'), makeFile('IMG_1.jpg')];
+    const { results } = batchRename(files, 'Trip_{counter}', new Map(), {
+      templateRules: [{
+        rule: { id: 'scans', name: 'Scans', condition: { fileTypes: ['png'] }, presetId: 'scan' },
+        template: 'Scan_{var:box}',
+        variables: { box: '7' }
+      }]
+    });
+
+    expect(results.get(files[0])!.filename).toBe('Scan_7.png');
+    expect(results.get(files[0])!.metadata?.matchedRule).toEqual({ id: 'scans', name: 'Scans', presetId: 'scan' });
+    expect(results.get(files[1])!.filename).toBe('Trip_002.jpg');
+    expect(results.get(files[1])!.metadata?.matchedRule).toBeUndefined();
+  });
+});
+
+describe('{original:pattern}', () => {
+  it('reads "@" and "?" in the pattern as literal characters', () => {
+    const template = '{original:<name>@2x?}{orig.name}';
+
+    expect(validateTemplate(template).errors).toEqual([]);
+    expect(generateFilename(template, null, 'icon@2x?.png').filename).toBe('icon.png');
+  });
+});
+
+describe('applyReplaceRules', () => {
+  it('substitutes regex capture groups by number and by name', () => {
+    const rules = [
+      { find: '^IMG_(\\d{4})(\\d{2})', replace: 'Shot_$2-$1', isRegex: true },
+      { find: '-(?<year>\\d{4})$', replace: '_$<year>', isRegex: true }
+    ];
+
+    expect(applyReplaceRules('IMG_202406', rules)).toEqual({ value: 'Shot_06_2024', errors: [] });
+  });
+
+  it('takes "$" literally in plain rules and skips disabled or invalid ones', () => {
+    const rules = [
+      { find: 'dsc', replace: '$1 photo' },
+      { find: 'photo', replace: 'pic', enabled: false },
+      { find: '(', replace: 'x', isRegex: true }
+    ];
+
+    expect(applyReplaceRules('DSC_01', rules)).toEqual({
+      value: '$1 photo_01',
+      errors: ['Invalid find pattern: (']
+    });
+  });
+
+  it('runs the template on the rewritten name when chained', () => {
+    const file = makeFile('IMG_0042.jpg');
+    const { results } = batchReplace([file], [{ find: 'IMG_', replace: 'Trip-' }], new Map(), {}, '{original}_{counter}');
+
+    expect(results.get(file)!.filename).toBe('Trip-0042_001.jpg');
+  });
+});
+
+describe('{var:name}', () => {
+  it('lists each variable a template uses once', () => {
+    expect(getTemplateVariables('{var:client}_{var:job?var:client}_{date}')).toEqual(['client', 'job']);
+  });
+
+  it('prefers the photo\'s value, then the batch value, then the preset default', () => {
+    const photos = [
+      makePhoto('a.jpg', { variables: { client: 'Jones' } }),
+      makePhoto('b.jpg'),
+      makePhoto('c.png')
+    ];
+    const { results } = renamePhotos(photos, '{var:client}[_{var:job}]', {
+      customValues: { client: 'Smith' },
+      templateRules: [{
+        rule: { id: 'scans', name: 'Scans', condition: { fileTypes: ['png'] }, presetId: 'scan' },
+        template: '{var:client}[_{var:job}]',
+        variables: { client: 'Preset', job: 'Archive' }
+      }]
+    });
+
+    expect(photos.map(photo => results.get(photo.id)!.filename)).toEqual([
+      'Jones.jpg',
+      'Smith.jpg',
+      'Smith_Archive.png'
+    ]);
+  });
+});
@@ -1,5 +1,47 @@
 import type { ExifData } from '../types/exif';
-import type { TemplateToken, RenameResult, RenameOptions } from '../types/template';
+import type {
+  TemplateToken,
+  TemplateTokenType,
+  TemplateNode,
+  TemplateSectionNode,
+  TemplateError,
+  TemplateWarning,
+  TemplateValidation,
+  ParsedTemplate,
+  RenameResult,
+  RenameOptions,
+  TemplateModifier,
+  TemplateErrorType,
+  TokenParameter,
+  ResolverContext,
+  AutocompleteSuggestion,
+  TemplatePreviewResult,
+  BatchRenameResult,
+  ConflictSuffixFormat,
+  RenameConflict,
+  RenameMetadata,
+  ReplaceRule,
+  NameOverride,
+  AttachedFiles
+} from '../types/template';
+import type { Photo } from '../types/photo';
+import {
+  capitalizeWords,
+  isValidTimeZone,
+  toKebabCase,
+  toSnakeCase,
+  truncateText
+} from './formatters';
+import {
+  findResolver,
+  isRegisteredToken,
+  getTokenDocumentation,
+  getAllTokenDocumentation
+} from './resolvers';
+import { sortForRenaming } from './ordering';
+import { getAttachedFilenames, getLivePhotoWarning } from './pairing';
+import { selectTemplateRule } from './rules';
+import { compileExpression, EXPRESSION_FIELDS, EXPRESSION_FUNCTIONS } from './expression';
 
 export const TEMPLATE_TOKENS = {
   // Date tokens
@@ -10,6 +52,10 @@ export const TEMPLATE_TOKENS = {
   '{HH}': 'Hour (00-23)',
   '{mm}': 'Minute (00-59)',
   '{ss}': 'Second (00-59)',
+  '{MMM}': 'Month name (short)',
+  '{MMMM}': 'Month name (full)',
+  '{ddd}': 'Weekday name (short)',
+  '{dddd}': 'Weekday name (full)',
   
   // Date formats
   '{date}': 'Full date (YYYYMMDD)',
@@ -50,327 +96,937 @@ export const TEMPLATE_TOKENS = {
   '{custom}': 'Custom text input'
 } as const;
 
-const TOKEN_REGEX = /\{([^}]+)\}/g;
+// Template used by the find-and-replace mode when it is not chained with a template
+export const REPLACE_ONLY_TEMPLATE = '{original}';
 
-export function parseTemplate(template: string): TemplateToken[] {
+const BUILTIN_TOKEN_NAMES = new Set(
+  Object.keys(TEMPLATE_TOKENS)
+    .filter(key => !key.includes(':'))
+    .map(key => key.slice(1, -1))
+);
+
+const MISSING_VALUE_WARNINGS: Record<string, string> = {
+  make: 'Camera make not available in EXIF data',
+  model: 'Camera model not available in EXIF data',
+  lens: 'Lens model not available in EXIF data',
+  iso: 'ISO not available in EXIF data',
+  aperture: 'Aperture not available in EXIF data',
+  shutter: 'Shutter speed not available in EXIF data',
+  focal: 'Focal length not available in EXIF data',
+  width: 'Image width not available',
+  height: 'Image height not available',
+  dimensions: 'Image dimensions not available',
+  lat: 'GPS latitude not available',
+  lng: 'GPS longitude not available',
+  gps: 'GPS coordinates not available',
+  duration: 'Duration not available; the file is not a video clip',
+  fps: 'Frame rate not available; the file is not a video clip',
+  '=': 'An expression uses a value missing from the EXIF data',
+  var: 'A template variable has no value',
+  folder: 'File was not added from a folder, or the folder level does not exist',
+  path: 'File was not added from a folder'
+};
+
+interface ModifierDefinition {
+  description: string;
+  usage: string;
+  minArgs: number;
+  maxArgs: number;
+  numeric?: boolean;
+  apply: (value: string, args: string[]) => string;
+}
+
+export const TOKEN_MODIFIERS: Record<string, ModifierDefinition> = {
+  lower: {
+    description: 'Lowercase',
+    usage: '|lower',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => value.toLowerCase()
+  },
+  upper: {
+    description: 'Uppercase',
+    usage: '|upper',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => value.toUpperCase()
+  },
+  title: {
+    description: 'Capitalize each word',
+    usage: '|title',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => capitalizeWords(value.replace(/_/g, ' ').toLowerCase()).replace(/ /g, '_')
+  },
+  slug: {
+    description: 'Lowercase words joined by hyphens',
+    usage: '|slug',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => toKebabCase(value.replace(/_/g, ' ').trim())
+  },
+  snake: {
+    description: 'Lowercase words joined by underscores',
+    usage: '|snake',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => toSnakeCase(value.replace(/-/g, ' ').trim())
+  },
+  truncate: {
+    description: 'Keep at most N characters',
+    usage: '|truncate:N',
+    minArgs: 1,
+    maxArgs: 1,
+    numeric: true,
+    apply: (value, [length]) => truncateText(value, parseInt(length, 10), '')
+  },
+  pad: {
+    description: 'Left-pad to N characters (with 0 or a given character)',
+    usage: '|pad:N or |pad:N:char',
+    minArgs: 1,
+    maxArgs: 2,
+    numeric: true,
+    apply: (value, [length, fill = '0']) => value.padStart(parseInt(length, 10), fill || '0')
+  },
+  replace: {
+    description: 'Replace every occurrence of a with b',
+    usage: '|replace:a:b',
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [search, replacement = '']) =>
+      search ? value.split(search).join(replacement) : value
+  },
+  default: {
+    description: 'Use X when the value is missing or empty',
+    usage: '|default:X',
+    minArgs: 1,
+    maxArgs: 1,
+    apply: value => value
+  },
+  ascii: {
+    description: 'Strip accents and non-ASCII characters',
+    usage: '|ascii',
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '')
+  }
+};
+
+export function parseTemplate(template: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
   const tokens: TemplateToken[] = [];
-  let match: RegExpExecArray | null;
-  
-  // Reset regex state
-  TOKEN_REGEX.lastIndex = 0;
-  
-  while ((match = TOKEN_REGEX.exec(template)) !== null) {
-    const token = match[1];
-    const fullToken = match[0];
-    
-    tokens.push({
-      token,
-      fullToken,
-      position: match.index,
-      isValid: isValidToken(token)
+  const literalParts: string[] = [];
+  const errors: TemplateError[] = [];
+
+  // Open optional section (at most one); it receives new nodes until "]"
+  const sections: { children: TemplateNode[]; position: number }[] = [];
+  const currentNodes = () => sections.length > 0 ? sections[sections.length - 1].children : root;
+
+  let literal = '';
+  let literalStart = 0;
+
+  const appendLiteral = (text: string, position: number) => {
+    if (!literal) literalStart = position;
+    literal += text;
+  };
+
+  const flushLiteral = () => {
+    if (!literal) return;
+    currentNodes().push({ type: 'literal', value: literal, position: literalStart });
+    literalParts.push(literal);
+    literal = '';
+  };
+
+  let i = 0;
+  while (i < template.length) {
+    const char = template[i];
+    const next = template[i + 1];
+
+    // Doubled braces and brackets are escapes for the literal character
+    if ((char === '{' || char === '}' || char === '[' || char === ']') && next === char) {
+      appendLiteral(char, i);
+      i += 2;
+      continue;
+    }
+
+    if (char === '}') {
+      errors.push({
+        type: 'invalid_syntax',
+        message: 'Unexpected "}" (use "}}" for a literal brace)',
+        position: i,
+        severity: 'error'
+      });
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      if (sections.length > 0) {
+        errors.push({
+          type: 'invalid_syntax',
+          message: 'Optional sections cannot be nested (use "[[" for a literal bracket)',
+          position: i,
+          severity: 'error'
+        });
+        i++;
+        continue;
+      }
+
+      flushLiteral();
+      sections.push({ children: [], position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ']') {
+      const section = sections.pop();
+
+      if (!section) {
+        errors.push({
+          type: 'invalid_syntax',
+          message: 'Unexpected "]" (use "]]" for a literal bracket)',
+          position: i,
+          severity: 'error'
+        });
+        i++;
+        continue;
+      }
+
+      flushLiteral();
+      currentNodes().push({
+        type: 'section',
+        children: section.children,
+        position: section.position,
+        source: template.slice(section.position, i + 1)
+      });
+      i++;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = next === '='
+        ? findExpressionEnd(template, i + 2)
+        : findTokenEnd(template, i + 1);
+
+      if (end === -1) {
+        errors.push({
+          type: 'unclosed_token',
+          message: 'Token is missing its closing "}"',
+          position: i,
+          token: template.slice(i),
+          severity: 'error'
+        });
+        i++;
+        continue;
+      }
+
+      flushLiteral();
+      const token = parseToken(template.slice(i + 1, end), i, errors);
+      tokens.push(token);
+      currentNodes().push({ type: 'token', token });
+      i = end + 1;
+      continue;
+    }
+
+    appendLiteral(char, i);
+    i++;
+  }
+
+  flushLiteral();
+
+  // Unclosed sections are reported and their contents kept as regular nodes
+  while (sections.length > 0) {
+    const section = sections.pop()!;
+    errors.push({
+      type: 'unclosed_section',
+      message: 'Optional section is missing its closing "]"',
+      position: section.position,
+      token: '[',
+      severity: 'error'
     });
+    currentNodes().push(...section.children);
   }
-  
-  return tokens;
+
+  return {
+    template,
+    nodes: root,
+    tokens,
+    literalParts,
+    hasValidTokens: tokens.some(t => t.isValid),
+    tokenCount: tokens.length,
+    errors
+  };
 }
 
-function isValidToken(token: string): boolean {
-  // Check standard tokens
-  if (TEMPLATE_TOKENS.hasOwnProperty(`{${token}}`)) {
-    return true;
+function findTokenEnd(template: string, from: number): number {
+  for (let i = from; i < template.length; i++) {
+    if (template[i] === '}') return i;
+    if (template[i] === '{') return -1;
   }
-  
-  // Check counter with custom padding (e.g., counter:5)
-  if (/^counter:\d+$/.test(token)) {
-    return true;
+  return -1;
+}
+
+// Braces inside an expression's string literals do not close the token
+function findExpressionEnd(template: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let i = from; i < template.length; i++) {
+    const char = template[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '}') return i;
+    else if (char === '{') return -1;
   }
-  
-  return false;
+  return -1;
 }
 
-export function generateFilename(
-  template: string,
-  exifData: ExifData | null,
-  originalFilename: string,
-  options: RenameOptions = {}
-): RenameResult {
-  const {
-    counter = 1,
-    counterPadding = 3,
-    customText = '',
-    fallbackDate = new Date(),
-    preserveExtension = true
-  } = options;
+function parseToken(body: string, position: number, errors: TemplateError[]): TemplateToken {
+  if (body.startsWith('=')) return parseExpressionToken(body, position, errors);
 
-  let filename = template;
-  const warnings: string[] = [];
+  const [head, ...pipeline] = body.split('|');
+  const fullToken = `{${body}}`;
+  const [primary, ...fallbacks] = parseAlternatives(head, position, fullToken);
+  const referenceErrors = [primary, ...fallbacks].flatMap(validateReference);
 
-  const { name: originalName, ext: originalExt } = parseFilename(originalFilename);
+  const token: TemplateToken = {
+    ...primary,
+    fullToken,
+    position,
+    fallbacks: fallbacks.length > 0 ? fallbacks : undefined,
+    modifiers: parseModifiers(pipeline, position + 1 + head.length + 1)
+  };
 
-  const date = exifData?.dateTaken || fallbackDate;
-  filename = replaceDateTokens(filename, date);
+  if (referenceErrors.length > 0) {
+    errors.push(...referenceErrors);
+    token.isValid = false;
+    return token;
+  }
 
-  filename = replaceCameraTokens(filename, exifData, warnings);
+  const modifierErrors = validateModifiers(token.modifiers || [], fullToken);
+  if (modifierErrors.length > 0) {
+    errors.push(...modifierErrors);
+    token.isValid = false;
+    return token;
+  }
 
-  filename = replaceImageTokens(filename, exifData, warnings);
+  return token;
+}
 
-  filename = replaceGPSTokens(filename, exifData, warnings);
+// The whole body after "=" is the expression; its "|" pipes into expression functions
+function parseExpressionToken(body: string, position: number, errors: TemplateError[]): TemplateToken {
+  const fullToken = `{${body}}`;
+  const source = body.slice(1);
+  const compiled = compileExpression(source);
 
-  filename = replaceCounterTokens(filename, counter, counterPadding);
+  errors.push(...compiled.errors.map((error): TemplateError => ({
+    type: 'invalid_expression',
+    message: `${error.message} in ${fullToken}`,
+    position: position + 2 + error.position,
+    token: fullToken,
+    severity: 'error'
+  })));
 
-  filename = filename.replace(/\{original\}/g, originalName);
-  filename = filename.replace(/\{ext\}/g, originalExt);
+  return {
+    token: '=',
+    fullToken,
+    position,
+    isValid: compiled.errors.length === 0,
+    parameters: [source]
+  };
+}
 
-  filename = filename.replace(/\{custom\}/g, customText);
-  
-  const unresolvedTokens = filename.match(TOKEN_REGEX);
-  if (unresolvedTokens && unresolvedTokens.length > 0) {
-    warnings.push(`Unresolved tokens: ${unresolvedTokens.join(', ')}`);
-    filename = filename.replace(TOKEN_REGEX, '');
+// Splits "lens?model?make" into one reference per alternative
+function parseAlternatives(head: string, position: number, fullToken: string): TemplateToken[] {
+  // A filename pattern is read whole, so "?", "@" and ":" in it are literal characters
+  if (head.startsWith('original:')) {
+    return [{ token: 'original', fullToken, position, isValid: false, parameters: [head.slice('original:'.length)] }];
   }
-  
-  filename = sanitizeForFilename(filename);
-  
-  if (preserveExtension && originalExt) {
-    filename = `${filename}.${originalExt}`;
+
+  const segments = head.split('?');
+  let offset = position + 1;
+
+  return segments.map(segment => {
+    const at = segment.indexOf('@');
+    const [name, ...parameters] = (at === -1 ? segment : segment.slice(0, at)).split(':');
+    const reference: TemplateToken = {
+      token: name,
+      fullToken: segments.length === 1 ? fullToken : `{${segment}}`,
+      position: segments.length === 1 ? position : offset,
+      isValid: false,
+      parameters: parameters.length > 0 ? parameters : undefined,
+      qualifier: at === -1 ? undefined : segment.slice(at + 1)
+    };
+    offset += segment.length + 1;
+    return reference;
+  });
+}
+
+function validateReference(reference: TemplateToken): TemplateError[] {
+  const { token: name, fullToken, position } = reference;
+
+  if (name.trim().length === 0) {
+    return [{
+      type: 'invalid_syntax',
+      message: 'Empty token',
+      position,
+      token: fullToken,
+      severity: 'error'
+    }];
   }
-  
-  return {
-    filename,
-    success: true,
-    warnings: warnings.length > 0 ? warnings : undefined
-  };
+
+  if (!isRegisteredToken(name)) {
+    return [{
+      type: 'invalid_token',
+      message: `Unknown token ${fullToken}`,
+      position,
+      token: fullToken,
+      severity: 'error'
+    }];
+  }
+
+  if (BUILTIN_TOKEN_NAMES.has(name)) {
+    reference.type = name as TemplateTokenType;
+  }
+
+  const documentation = getTokenDocumentation(name);
+  const parameterErrors = [
+    ...validateParameters(reference, documentation?.parameters || []),
+    ...validateQualifier(reference, documentation?.qualifier)
+  ];
+  reference.isValid = parameterErrors.length === 0;
+
+  return parameterErrors;
 }
 
-function replaceDateTokens(template: string, date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const seconds = String(date.getSeconds()).padStart(2, '0');
-  
-  return template
-    .replace(/\{YYYY\}/g, String(year))
-    .replace(/\{YY\}/g, String(year).slice(-2))
-    .replace(/\{MM\}/g, month)
-    .replace(/\{DD\}/g, day)
-    .replace(/\{HH\}/g, hours)
-    .replace(/\{mm\}/g, minutes)
-    .replace(/\{ss\}/g, seconds)
-    .replace(/\{date\}/g, `${year}${month}${day}`)
-    .replace(/\{datetime\}/g, `${year}${month}${day}_${hours}${minutes}${seconds}`)
-    .replace(/\{timestamp\}/g, String(Math.floor(date.getTime() / 1000)));
-}
-
-function replaceCameraTokens(
-  template: string,
-  exifData: ExifData | null,
-  warnings: string[]
-): string {
-  let result = template;
-  
-  // Make
-  if (result.includes('{make}')) {
-    if (exifData?.make) {
-      result = result.replace(/\{make\}/g, sanitizeToken(exifData.make));
-    } else {
-      warnings.push('Camera make not available in EXIF data');
-      result = result.replace(/\{make\}/g, '');
+function validateQualifier(token: TemplateToken, spec: TokenParameter | undefined): TemplateError[] {
+  const { qualifier, fullToken, position } = token;
+  const error = (type: TemplateErrorType, message: string): TemplateError[] => [{
+    type,
+    message,
+    position,
+    token: fullToken,
+    severity: 'error'
+  }];
+
+  if (qualifier === undefined || qualifier === '') {
+    if (qualifier === '' || spec?.required) {
+      return error('missing_parameter', `Missing ${spec?.name ?? 'qualifier'} after "@" in ${fullToken}`);
     }
+    return [];
   }
-  
-  // Model
-  if (result.includes('{model}')) {
-    if (exifData?.model) {
-      result = result.replace(/\{model\}/g, sanitizeToken(exifData.model));
-    } else {
-      warnings.push('Camera model not available in EXIF data');
-      result = result.replace(/\{model\}/g, '');
-    }
+
+  if (!spec) {
+    return error('invalid_parameter', `Token {${token.token}} does not accept an "@" qualifier`);
   }
-  
-  // Lens
-  if (result.includes('{lens}')) {
-    if (exifData?.lensModel) {
-      result = result.replace(/\{lens\}/g, sanitizeToken(exifData.lensModel));
-    } else {
-      warnings.push('Lens model not available in EXIF data');
-      result = result.replace(/\{lens\}/g, '');
-    }
+
+  const problem = checkParameterValue(spec, qualifier);
+  return problem ? error('invalid_parameter', `${capitalizeWords(spec.name)} ${problem} in ${fullToken}`) : [];
+}
+
+function validateParameters(token: TemplateToken, specs: TokenParameter[]): TemplateError[] {
+  const errors: TemplateError[] = [];
+  const parameters = token.parameters || [];
+  const error = (type: TemplateErrorType, message: string): TemplateError => ({
+    type,
+    message,
+    position: token.position,
+    token: token.fullToken,
+    severity: 'error'
+  });
+
+  if (parameters.length > specs.length) {
+    errors.push(error(
+      'invalid_parameter',
+      specs.length === 0
+        ? `Token {${token.token}} does not accept parameters`
+        : `Too many parameters in ${token.fullToken}`
+    ));
+    return errors;
   }
-  
-  // ISO
-  if (result.includes('{iso}')) {
-    if (exifData?.iso) {
-      result = result.replace(/\{iso\}/g, `ISO${exifData.iso}`);
-    } else {
-      warnings.push('ISO not available in EXIF data');
-      result = result.replace(/\{iso\}/g, '');
+
+  specs.forEach((spec, index) => {
+    const value = parameters[index];
+
+    if (value === undefined || value === '') {
+      if (spec.required) {
+        errors.push(
+          error('missing_parameter', `Missing parameter "${spec.name}" in ${token.fullToken}`)
+        );
+      }
+      return;
     }
-  }
-  
-  // Aperture
-  if (result.includes('{aperture}')) {
-    if (exifData?.fNumber) {
-      result = result.replace(/\{aperture\}/g, `f${exifData.fNumber}`);
-    } else {
-      warnings.push('Aperture not available in EXIF data');
-      result = result.replace(/\{aperture\}/g, '');
+
+    const problem = checkParameterValue(spec, value);
+    if (problem) {
+      errors.push(error('invalid_parameter', `Parameter "${spec.name}" ${problem} in ${token.fullToken}`));
     }
+  });
+
+  return errors;
+}
+
+function checkParameterValue(spec: TokenParameter, value: string): string | null {
+  const { min, max, pattern } = spec.validation || {};
+
+  if (spec.type === 'number') {
+    if (!/^-?\d+(\.\d+)?$/.test(value)) return 'must be a number';
+    if (min !== undefined && Number(value) < min) return `must be at least ${min}`;
+    if (max !== undefined && Number(value) > max) return `must be at most ${max}`;
   }
-  
-  // Shutter speed
-  if (result.includes('{shutter}')) {
-    if (exifData?.exposureTime) {
-      const shutterDisplay = formatShutterSpeed(
-        typeof exifData.exposureTime === 'number' ? exifData.exposureTime :
-          typeof exifData.exposureTime === 'string' ? parseFloat(exifData.exposureTime) || 0 :
-            0
-      );
-      result = result.replace(/\{shutter\}/g, shutterDisplay);
-    } else {
-      warnings.push('Shutter speed not available in EXIF data');
-      result = result.replace(/\{shutter\}/g, '');
+
+  if (spec.type === 'boolean' && value !== 'true' && value !== 'false') {
+    return 'must be true or false';
+  }
+
+  if (spec.type === 'timezone' && !isValidTimeZone(value)) {
+    return `"${value}" is not a known IANA timezone`;
+  }
+
+  if (spec.type === 'token' && (!isRegisteredToken(value) || value === 'counter')) {
+    return 'must name another token such as date or model';
+  }
+
+  if (pattern && !new RegExp(pattern).test(value)) return 'has an invalid value';
+
+  return null;
+}
+
+function parseModifiers(pipeline: string[], position: number): TemplateModifier[] | undefined {
+  if (pipeline.length === 0) return undefined;
+
+  let offset = position;
+  return pipeline.map(segment => {
+    const [name, ...args] = segment.split(':');
+    const modifier: TemplateModifier = { name: name.trim(), args, position: offset };
+    offset += segment.length + 1;
+    return modifier;
+  });
+}
+
+function validateModifiers(modifiers: TemplateModifier[], fullToken: string): TemplateError[] {
+  const errors: TemplateError[] = [];
+
+  for (const modifier of modifiers) {
+    const definition = TOKEN_MODIFIERS[modifier.name];
+
+    if (!definition) {
+      errors.push({
+        type: 'invalid_modifier',
+        message: modifier.name
+          ? `Unknown modifier "${modifier.name}" in ${fullToken}`
+          : `Empty modifier in ${fullToken}`,
+        position: modifier.position,
+        token: modifier.name,
+        severity: 'error'
+      });
+      continue;
+    }
+
+    if (modifier.args.length < definition.minArgs) {
+      errors.push({
+        type: 'missing_parameter',
+        message: `Modifier "${modifier.name}" requires an argument (${definition.usage})`,
+        position: modifier.position,
+        token: modifier.name,
+        severity: 'error'
+      });
+      continue;
+    }
+
+    if (modifier.args.length > definition.maxArgs) {
+      errors.push({
+        type: 'invalid_parameter',
+        message: `Too many arguments for modifier "${modifier.name}" (${definition.usage})`,
+        position: modifier.position,
+        token: modifier.name,
+        severity: 'error'
+      });
+      continue;
+    }
+
+    if (definition.numeric && !/^\d+$/.test(modifier.args[0])) {
+      errors.push({
+        type: 'invalid_parameter',
+        message: `Modifier "${modifier.name}" expects a number (${definition.usage})`,
+        position: modifier.position,
+        token: modifier.name,
+        severity: 'error'
+      });
     }
   }
-  
-  // Focal length
-  if (result.includes('{focal}')) {
-    if (exifData?.focalLength) {
-      result = result.replace(/\{focal\}/g, `${exifData.focalLength}mm`);
-    } else {
-      warnings.push('Focal length not available in EXIF data');
-      result = result.replace(/\{focal\}/g, '');
+
+  return errors;
+}
+
+function applyModifiers(
+  value: string | null,
+  modifiers: TemplateModifier[] | undefined
+): { value: string | null; defaulted: boolean } {
+  let current = value;
+  let defaulted = false;
+
+  for (const modifier of modifiers || []) {
+    if (modifier.name === 'default') {
+      if (!current) {
+        current = modifier.args[0];
+        defaulted = true;
+      }
+      continue;
     }
+
+    if (current === null) continue;
+    current = TOKEN_MODIFIERS[modifier.name].apply(current, modifier.args);
   }
-  
+
+  return { value: current, defaulted };
+}
+
+interface EvaluationResult {
+  output: string;
+  warnings: string[];
+  tokensUsed: string[];
+  fallbacksApplied: string[];
+}
+
+function evaluateTemplate(parsed: ParsedTemplate, context: ResolverContext): EvaluationResult {
+  const result: EvaluationResult = {
+    output: '',
+    warnings: [],
+    tokensUsed: [],
+    fallbacksApplied: []
+  };
+  const unresolved: string[] = [];
+
+  result.output = evaluateNodes(parsed.nodes, context, result, unresolved, false).output;
+
+  if (unresolved.length > 0) {
+    result.warnings.push(`Unresolved tokens: ${unresolved.join(', ')}`);
+  }
+
   return result;
 }
 
-function replaceImageTokens(
-  template: string,
-  exifData: ExifData | null,
-  warnings: string[]
-): string {
-  let result = template;
-  
-  if (result.includes('{width}')) {
-    if (exifData?.width) {
-      result = result.replace(/\{width\}/g, String(exifData.width));
-    } else {
-      warnings.push('Image width not available');
-      result = result.replace(/\{width\}/g, '');
+function evaluateNodes(
+  nodes: TemplateNode[],
+  context: ResolverContext,
+  result: EvaluationResult,
+  unresolved: string[],
+  optional: boolean
+): { output: string; complete: boolean } {
+  let output = '';
+  let complete = true;
+
+  for (const node of nodes) {
+    if (node.type === 'literal') {
+      output += node.value;
+      continue;
     }
-  }
-  
-  if (result.includes('{height}')) {
-    if (exifData?.height) {
-      result = result.replace(/\{height\}/g, String(exifData.height));
-    } else {
-      warnings.push('Image height not available');
-      result = result.replace(/\{height\}/g, '');
+
+    if (node.type === 'section') {
+      const section = evaluateNodes(node.children, context, result, unresolved, true);
+      if (section.complete) {
+        output += section.output;
+      } else {
+        result.fallbacksApplied.push(`${node.source}→omitted`);
+      }
+      continue;
     }
-  }
-  
-  if (result.includes('{dimensions}')) {
-    if (exifData?.width && exifData?.height) {
-      result = result.replace(/\{dimensions\}/g, `${exifData.width}x${exifData.height}`);
-    } else {
-      warnings.push('Image dimensions not available');
-      result = result.replace(/\{dimensions\}/g, '');
+
+    const { token } = node;
+    if (!token.isValid) {
+      unresolved.push(token.fullToken);
+      complete = false;
+      continue;
     }
-  }
-  
-  if (result.includes('{orientation}')) {
-    if (exifData?.orientation) {
-      result = result.replace(/\{orientation\}/g, String(exifData.orientation));
-    } else {
-      result = result.replace(/\{orientation\}/g, '1');
+
+    const resolved = resolveChain(token, context);
+    result.tokensUsed.push(token.token);
+
+    if (resolved.source && resolved.source !== token.token) {
+      result.tokensUsed.push(resolved.source);
+      result.fallbacksApplied.push(`${token.token}→${resolved.source}`);
+    }
+
+    const { value, defaulted } = applyModifiers(resolved.value, token.modifiers);
+
+    if (defaulted) {
+      result.fallbacksApplied.push(`${token.token}→default`);
     }
+
+    if (!value) {
+      complete = false;
+
+      if (value === null && !optional) {
+        const warning = MISSING_VALUE_WARNINGS[token.token] ?? `No value available for {${token.token}}`;
+        if (!result.warnings.includes(warning)) result.warnings.push(warning);
+      }
+      continue;
+    }
+
+    output += value;
   }
-  
-  return result;
+
+  return { output, complete };
+}
+
+// Tries the token and then each fallback, returning the first non-empty value
+function resolveChain(
+  token: TemplateToken,
+  context: ResolverContext
+): { value: string | null; source: string | null } {
+  let last: string | null = null;
+
+  for (const reference of [token, ...(token.fallbacks || [])]) {
+    const resolver = findResolver(reference.token);
+    const value = resolver
+      ? resolver.resolve(reference.token, {
+        ...context,
+        parameters: reference.parameters,
+        qualifier: reference.qualifier
+      })
+      : null;
+
+    if (value) return { value, source: reference.token };
+    if (value !== null) last = value;
+  }
+
+  return { value: last, source: null };
 }
 
-function replaceGPSTokens(
+export function generateFilename(
   template: string,
   exifData: ExifData | null,
-  warnings: string[]
-): string {
-  let result = template;
-  
-  if (result.includes('{lat}')) {
-    if (exifData?.gps?.lat) {
-      result = result.replace(/\{lat\}/g, exifData.gps.lat.toFixed(6));
-    } else {
-      warnings.push('GPS latitude not available');
-      result = result.replace(/\{lat\}/g, '');
-    }
+  originalFilename: string,
+  options: RenameOptions = {}
+): RenameResult {
+  const { preserveExtension = true, caseTransform = 'none' } = options;
+
+  const { name: originalName, ext: originalExt } = parseFilename(originalFilename);
+  const parsed = parseTemplate(template);
+
+  // Replace rules rewrite the name the template sees as {original}
+  const replaced = applyReplaceRules(originalName, options.replaceRules || []);
+  const sourceFilename = originalExt ? `${replaced.value}.${originalExt}` : replaced.value;
+
+  const originalMatch = matchOriginalFilename(parsed, sourceFilename, options);
+
+  const { output, warnings, tokensUsed, fallbacksApplied } = evaluateTemplate(parsed, {
+    ...createResolverContext(exifData, sourceFilename, options),
+    originalParts: originalMatch.parts
+  });
+
+  if (originalMatch.warning) {
+    warnings.unshift(originalMatch.warning);
   }
-  
-  if (result.includes('{lng}')) {
-    if (exifData?.gps?.lng) {
-      result = result.replace(/\{lng\}/g, exifData.gps.lng.toFixed(6));
-    } else {
-      warnings.push('GPS longitude not available');
-      result = result.replace(/\{lng\}/g, '');
-    }
+
+  const usesDate = tokensUsed.some(t => getTokenDocumentation(t)?.category === 'date');
+  if (usesDate && !exifData?.dateTaken) {
+    fallbacksApplied.push('date→fallbackDate');
   }
-  
-  if (result.includes('{gps}')) {
-    if (exifData?.gps?.lat && exifData?.gps?.lng) {
-      result = result.replace(
-        /\{gps\}/g,
-        `${exifData.gps.lat.toFixed(6)}_${exifData.gps.lng.toFixed(6)}`
-      );
-    } else {
-      warnings.push('GPS coordinates not available');
-      result = result.replace(/\{gps\}/g, '');
-    }
+
+  let filename = applyCaseTransform(sanitizeForFilename(output), caseTransform);
+
+  if (preserveExtension && originalExt) {
+    filename = `${filename}.${originalExt}`;
   }
-  
-  return result;
+
+  const errors = [
+    ...parsed.errors.filter(e => e.severity === 'error').map(e => e.message),
+    ...replaced.errors
+  ];
+
+  return {
+    filename,
+    success: errors.length === 0,
+    originalFilename,
+    errors: errors.length > 0 ? errors : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    metadata: {
+      tokensUsed,
+      exifDataUsed: exifData !== null,
+      fallbacksApplied
+    }
+  };
 }
 
-function replaceCounterTokens(
-  template: string,
-  counter: number,
-  defaultPadding: number
-): string {
-  let result = template;
-  
-  // Handle custom padding (e.g., {counter:5})
-  result = result.replace(/\{counter:(\d+)\}/g, (_, padding) => {
-    return String(counter).padStart(parseInt(padding, 10), '0');
+/**
+ * Split the original filename with the template's {original:pattern} declaration,
+ * or the originalPattern regex option, so {orig.name} and {orig.1} can use the pieces
+ */
+function matchOriginalFilename(
+  parsed: ParsedTemplate,
+  originalFilename: string,
+  options: RenameOptions
+): { parts?: Record<string, string> | null; warning?: string } {
+  const declared = findOriginalPattern(parsed);
+  const source = declared ?? options.originalPattern;
+  if (!source) return {};
+
+  let pattern: RegExp;
+  try {
+    pattern = declared ? compileOriginalPattern(declared) : new RegExp(source);
+  } catch {
+    return { parts: null, warning: `Invalid original filename pattern: ${source}` };
+  }
+
+  const match = parseFilename(originalFilename).name.match(pattern);
+  if (!match) {
+    return { parts: null, warning: `${originalFilename} does not match the pattern ${source}` };
+  }
+
+  const parts: Record<string, string> = { ...match.groups };
+  match.slice(1).forEach((value, index) => {
+    parts[String(index + 1)] = value ?? '';
   });
-  
-  // Handle default counter
-  result = result.replace(/\{counter\}/g, String(counter).padStart(defaultPadding, '0'));
-  
-  return result;
+
+  return { parts };
+}
+
+function findOriginalPattern(parsed: ParsedTemplate): string | undefined {
+  return parsed.tokens.find(token => token.token === 'original' && token.parameters?.length)
+    ?.parameters!.join(':');
 }
 
-function formatShutterSpeed(speed: string | number | null | undefined): string {
-  if (!speed) return '';
+// "IMG_<date>_<frame>" → /^IMG_(?<date>.+?)_(?<frame>.+?)$/i, "*" is any text and "#" one digit
+function compileOriginalPattern(pattern: string): RegExp {
+  const source = pattern
+    .split(/(<\w+>|\*|#)/)
+    .map(part => {
+      if (/^<\w+>$/.test(part)) return `(?<${part.slice(1, -1)}>.+?)`;
+      if (part === '*') return '.*?';
+      if (part === '#') return '\\d';
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
 
-  const numSpeed = typeof speed === 'number' ? speed : parseFloat(String(speed));
+  return new RegExp(`^${source}$`, 'i');
+}
 
-  if (isNaN(numSpeed) || numSpeed <= 0) return '';
+// {orig.*} references must name a piece the declared pattern captures
+function validateOriginalReferences(parsed: ParsedTemplate): TemplateError[] {
+  const declared = findOriginalPattern(parsed);
+  if (!declared) return [];
 
-  if (numSpeed >= 1) {
-    return `${numSpeed}s`;
-  } else {
-    const denominator = Math.round(1 / numSpeed);
-    return `1/${denominator}s`;
+  let pattern: RegExp;
+  try {
+    pattern = compileOriginalPattern(declared);
+  } catch {
+    return [{
+      type: 'invalid_parameter',
+      message: `Original filename pattern "${declared}" repeats a piece name`,
+      severity: 'error'
+    }];
   }
+
+  const groupCount = new RegExp(`${pattern.source}|`).exec('')!.length - 1;
+  const names = new Set(Array.from(declared.matchAll(/<(\w+)>/g), match => match[1]));
+
+  return parsed.tokens
+    .flatMap(token => [token, ...(token.fallbacks || [])])
+    .filter(token => token.token.startsWith('orig.'))
+    .filter(token => {
+      const piece = token.token.slice(5);
+      return /^\d+$/.test(piece) ? Number(piece) < 1 || Number(piece) > groupCount : !names.has(piece);
+    })
+    .map((token): TemplateError => ({
+      type: 'invalid_token',
+      message: `${token.fullToken} is not captured by the pattern "${declared}"`,
+      position: token.position,
+      token: token.fullToken,
+      severity: 'error'
+    }));
 }
 
-function sanitizeToken(value: string): string {
-  return value
-    .replace(/[^\w\s-]/g, '') // Remove special chars except word chars, spaces, hyphens
-    .replace(/\s+/g, '_') // Replace spaces with underscores
-    .trim();
+/**
+ * Apply find-and-replace rules in order; every rule replaces all occurrences
+ * Literal rules insert the replacement as-is, regex rules support $1 and $<name>
+ */
+export function applyReplaceRules(
+  name: string,
+  rules: ReplaceRule[]
+): { value: string; errors: string[] } {
+  const errors: string[] = [];
+
+  const value = rules.reduce((current, rule) => {
+    if (rule.enabled === false || rule.find === '') return current;
+
+    const pattern = compileReplaceRule(rule);
+    if (!pattern) {
+      errors.push(`Invalid find pattern: ${rule.find}`);
+      return current;
+    }
+
+    return rule.isRegex
+      ? current.replace(pattern, rule.replace)
+      : current.replace(pattern, () => rule.replace);
+  }, name);
+
+  return { value, errors };
+}
+
+export function validateReplaceRules(rules: ReplaceRule[]): string[] {
+  return rules
+    .filter(rule => rule.enabled !== false && rule.find !== '' && !compileReplaceRule(rule))
+    .map(rule => `Invalid find pattern: ${rule.find}`);
+}
+
+function compileReplaceRule(rule: ReplaceRule): RegExp | null {
+  const source = rule.isRegex ? rule.find : rule.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  try {
+    return new RegExp(source, rule.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find-and-replace rename mode: rules rewrite each original name, then the
+ * optional template runs with the rewritten name as {original}
+ */
+export function batchReplace(
+  files: File[],
+  rules: ReplaceRule[],
+  exifDataMap: Map<File | string, ExifData | null>,
+  options: RenameOptions = {},
+  template: string = REPLACE_ONLY_TEMPLATE
+): BatchRenameResult<File> {
+  return batchRename(files, template, exifDataMap, { ...options, replaceRules: rules });
+}
+
+function createResolverContext(
+  exifData: ExifData | null,
+  originalFilename: string,
+  options: RenameOptions
+): ResolverContext {
+  return {
+    exifData,
+    date: exifData?.dateTaken || options.fallbackDate || new Date(),
+    originalFilename,
+    relativePath: options.relativePath,
+    counter: options.counter ?? 1,
+    scopedCounters: options.scopedCounters,
+    customValues: options.customValues,
+    options
+  };
+}
+
+function applyCaseTransform(
+  value: string,
+  caseTransform: NonNullable<RenameOptions['caseTransform']>
+): string {
+  switch (caseTransform) {
+    case 'lowercase': return value.toLowerCase();
+    case 'uppercase': return value.toUpperCase();
+    case 'titlecase': return TOKEN_MODIFIERS.title.apply(value, []);
+    default: return value;
+  }
 }
 
 function sanitizeForFilename(value: string | number | null): string {
@@ -382,56 +1038,22 @@ function sanitizeForFilename(value: string | number | null): string {
     .replace(/_{2,}/g, '_');      
 }
 
+/**
+ * @deprecated Use generateFilename (or renamePhotos for a whole selection) so that
+ * previews and exported names come from the same pipeline
+ */
 export function applyTemplate(
   template: string,
   exifData: ExifData | null,
   counter: number,
   originalFileName: string
 ): string {
-  if (!exifData) {
-    return originalFileName.split('.')[0];
-  }
-
-  let result = template;
-
-  const dateStr = exifData.dateTaken 
-    ? exifData.dateTaken.toISOString().split('T')[0].replace(/-/g, '') 
-    : 'NoDate';
-  
-  result = result.replace(/{date}/g, dateStr);
-  
-  if (exifData.dateTaken) {
-    const date = exifData.dateTaken;
-    result = result.replace(/{YYYY}/g, date.getFullYear().toString());
-    result = result.replace(/{YY}/g, date.getFullYear().toString().slice(-2));
-    result = result.replace(/{MM}/g, String(date.getMonth() + 1).padStart(2, '0'));
-    result = result.replace(/{DD}/g, String(date.getDate()).padStart(2, '0'));
-    result = result.replace(/{HH}/g, String(date.getHours()).padStart(2, '0'));
-    result = result.replace(/{mm}/g, String(date.getMinutes()).padStart(2, '0'));
-    result = result.replace(/{ss}/g, String(date.getSeconds()).padStart(2, '0'));
-  }
-
-  result = result.replace(/{make}/g, sanitizeForFilename(exifData.make) || 'Unknown');
-  result = result.replace(/{model}/g, sanitizeForFilename(exifData.model) || 'Unknown');
-  result = result.replace(/{iso}/g, sanitizeForFilename(exifData.iso) || '0');
-  result = result.replace(/{focal}/g, sanitizeForFilename(exifData.focalLength) || '0');
-  result = result.replace(/{aperture}/g, sanitizeForFilename(exifData.fNumber) || '0');
-  
-  const shutterSpeed = typeof exifData.exposureTime === 'number' ? exifData.exposureTime :
-                      typeof exifData.exposureTime === 'string' ? parseFloat(exifData.exposureTime) || 0 : 0;
-  result = result.replace(/{shutter}/g, shutterSpeed > 0 ? String(shutterSpeed) : '0');
-  
-  result = result.replace(/{counter}/g, String(counter).padStart(3, '0'));
-  
-  result = result.replace(/{counter:(\d+)}/g, (match, digits) => {
-    const padding = parseInt(digits, 10) || 3;
-    return String(counter).padStart(padding, '0');
+  const result = generateFilename(template, exifData, originalFileName, {
+    counter,
+    preserveExtension: false
   });
 
-  result = result.replace(/_{2,}/g, '_');
-  result = result.replace(/-{2,}/g, '-');
-
-  return result;
+  return result.filename;
 }
 
 function parseFilename(filename: string): { name: string; ext: string } {
@@ -447,103 +1069,568 @@ function parseFilename(filename: string): { name: string; ext: string } {
   };
 }
 
+interface ConflictEntry {
+  file: File;
+  result: RenameResult;
+  attached?: AttachedFiles; // Its files take names derived from result.filename
+  folder?: string; // Names only conflict within the same folder
+}
+
 export function batchRename(
   files: File[],
   template: string,
-  exifDataMap: Map<string, ExifData | null>,
+  exifDataMap: Map<File | string, ExifData | null>,
   options: RenameOptions = {}
-): Map<File, RenameResult> {
-  const results = new Map<File, RenameResult>();
-  const usedFilenames = new Set<string>();
+): BatchRenameResult<File> {
+  const startedAt = Date.now();
+  const entries: ConflictEntry[] = [];
+  const start = options.tokenOptions?.counter?.start ?? options.startCounter ?? 1;
+  const scopesByTemplate = new Map<string, string[]>();
+  const getScopes = (fileTemplate: string) => {
+    if (!scopesByTemplate.has(fileTemplate)) {
+      scopesByTemplate.set(
+        fileTemplate,
+        getCounterScopes(parseTemplate(fileTemplate), options.tokenOptions?.counter?.scope)
+      );
+    }
+    return scopesByTemplate.get(fileTemplate)!;
+  };
+  const groupSizes = new Map<string, number>();
+  // Hand-typed names take no number, so {counter} only advances for template-rendered files
+  let rendered = 0;
+  const getExifData = (file: File) => exifDataMap.get(file) ?? exifDataMap.get(file.name) ?? null;
+  const getAttached = (file: File) => options.attachedFiles?.get(file) ?? options.attachedFiles?.get(file.name);
+  const getFolder = (file: File) => {
+    const path = options.keepFolders
+      ? options.relativePaths?.get(file) ?? options.relativePaths?.get(file.name)
+      : undefined;
+    return path?.includes('/') ? path.slice(0, path.lastIndexOf('/')) : undefined;
+  };
+  const orderedFiles = sortForRenaming(files, options.sortOrder, file => ({
+    name: file.name,
+    lastModified: file.lastModified,
+    exifData: getExifData(file)
+  }));
   
-  files.forEach((file, index) => {
-    const exifData = exifDataMap.get(file.name) || null;
+  orderedFiles.forEach(file => {
+    const exifData = getExifData(file);
+    const override = options.nameOverrides?.get(file) ?? options.nameOverrides?.get(file.name);
+
+    if (override?.kind === 'name') {
+      entries.push({
+        file,
+        result: createManualResult(override.value, file.name, options),
+        attached: getAttached(file),
+        folder: getFolder(file)
+      });
+      return;
+    }
+
+    const matched = !override && options.templateRules?.length
+      ? selectTemplateRule(options.templateRules, { name: file.name, exifData })
+      : undefined;
+    const fileTemplate = override?.value ?? matched?.template ?? template;
+    const scopes = getScopes(fileTemplate);
     const renameOptions: RenameOptions = {
       ...options,
-      counter: (options.startCounter || 1) + index
+      // Per-file values win over batch values, which win over the matched preset's defaults
+      customValues: {
+        ...matched?.variables,
+        ...options.customValues,
+        ...(options.customValueOverrides?.get(file) ?? options.customValueOverrides?.get(file.name))
+      },
+      counter: start + rendered++,
+      relativePath: options.relativePaths?.get(file) ?? options.relativePaths?.get(file.name),
+      // Fall back to the file's own date so repeated runs produce identical names
+      fallbackDate: options.fallbackDate ?? new Date(file.lastModified)
     };
-    
-    let result = generateFilename(template, exifData, file.name, renameOptions);
-    
-    if (usedFilenames.has(result.filename)) {
-      result = resolveFilenameConflict(result, usedFilenames);
+
+    if (scopes.length > 0) {
+      const context = createResolverContext(exifData, file.name, renameOptions);
+      renameOptions.scopedCounters = Object.fromEntries(scopes.map(scope => {
+        const group = `${scope}\u0000${findResolver(scope)?.resolve(scope, context) ?? ''}`;
+        const position = groupSizes.get(group) ?? 0;
+        groupSizes.set(group, position + 1);
+        return [scope, start + position];
+      }));
     }
     
-    usedFilenames.add(result.filename);
-    results.set(file, result);
+    const result = generateFilename(fileTemplate, exifData, file.name, renameOptions);
+    if (matched && result.metadata) {
+      const { id, name, presetId } = matched.rule;
+      result.metadata.matchedRule = { id, name, presetId };
+    }
+    if (override && result.metadata) {
+      result.metadata.override = override.kind;
+    }
+
+    entries.push({ file, result, attached: getAttached(file), folder: getFolder(file) });
   });
+
+  const conflicts = resolveConflicts(entries, options);
+  const results = new Map(entries.map(({ file, result }) => [file, result]));
+  const successCount = entries.filter(({ result }) => result.success).length;
+  const unique = (messages: string[]) => Array.from(new Set(messages));
   
-  return results;
+  return {
+    totalFiles: files.length,
+    successCount,
+    failureCount: files.length - successCount,
+    results,
+    conflicts,
+    duration: Date.now() - startedAt,
+    errors: unique(entries.flatMap(({ result }) => result.errors || [])),
+    warnings: unique(entries.flatMap(({ result }) => result.warnings || []))
+  };
 }
 
-function resolveFilenameConflict(
+// A hand-typed name skips the template but is still sanitized and conflict-checked
+function createManualResult(name: string, originalFilename: string, options: RenameOptions): RenameResult {
+  const { preserveExtension = true } = options;
+  const { name: originalName, ext: originalExt } = parseFilename(originalFilename);
+  const typed = parseFilename(name.trim());
+
+  // "Portrait.jpg" for a .jpg file is the same as typing "Portrait"
+  const stem = originalExt && typed.ext.toLowerCase() === originalExt.toLowerCase()
+    ? typed.name
+    : name.trim();
+  const sanitized = sanitizeForFilename(stem);
+  const errors = sanitized ? [] : ['Manual name is empty after removing invalid characters'];
+
+  let filename = sanitized || originalName;
+  if (preserveExtension && originalExt) {
+    filename = `${filename}.${originalExt}`;
+  }
+
+  return {
+    filename,
+    success: errors.length === 0,
+    originalFilename,
+    errors: errors.length > 0 ? errors : undefined,
+    metadata: {
+      tokensUsed: [],
+      exifDataUsed: false,
+      fallbacksApplied: [],
+      override: 'name'
+    }
+  };
+}
+
+// Scopes that {counter} restarts on, e.g. "date" for {counter@date}
+function getCounterScopes(parsed: ParsedTemplate, defaultScope?: string): string[] {
+  const scopes = parsed.tokens
+    .flatMap(token => [token, ...(token.fallbacks || [])])
+    .filter(token => token.token === 'counter')
+    .map(token => token.qualifier || defaultScope)
+    .filter((scope): scope is string => !!scope && isRegisteredToken(scope));
+
+  return Array.from(new Set(scopes));
+}
+
+/**
+ * Names of the {var:name} variables a template uses, in order of first use
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = parseTemplate(template).tokens
+    .flatMap(token => [token, ...(token.fallbacks || [])])
+    .filter(reference => reference.token === 'var' && reference.parameters?.[0])
+    .map(reference => reference.parameters![0]);
+
+  return Array.from(new Set(names));
+}
+
+export function renamePhotos(
+  photos: Photo[],
+  template: string,
+  options: RenameOptions = {}
+): BatchRenameResult {
+  const files = photos.map(photo => photo.file);
+  const exifDataMap = new Map<File, ExifData | null>(
+    photos.map(photo => [photo.file, photo.metadata.exif])
+  );
+  const customValueOverrides = new Map<File, Record<string, string>>(
+    photos
+      .filter(photo => photo.variables)
+      .map(photo => [photo.file, photo.variables!])
+  );
+  const nameOverrides = new Map<File, NameOverride>(
+    photos
+      .filter(photo => photo.nameOverride)
+      .map(photo => [photo.file, photo.nameOverride!])
+  );
+  const relativePaths = new Map<File, string>(
+    photos
+      .filter(photo => photo.metadata.relativePath)
+      .map(photo => [photo.file, photo.metadata.relativePath!])
+  );
+
+  const attachedFiles = new Map<File, AttachedFiles>(
+    photos
+      .filter(photo => photo.companions?.length || photo.sidecars?.length)
+      .map(photo => [photo.file, photo])
+  );
+
+  const batch = batchRename(files, template, exifDataMap, {
+    ...options,
+    customValueOverrides,
+    nameOverrides,
+    relativePaths,
+    attachedFiles
+  });
+
+  // Live Photo halves missing their partner are flagged alongside the template warnings
+  return {
+    ...batch,
+    results: new Map(photos.map(photo => {
+      const result = batch.results.get(photo.file)!;
+      const livePhotoWarning = getLivePhotoWarning(photo);
+      return [
+        photo.id,
+        livePhotoWarning ? { ...result, warnings: [...(result.warnings ?? []), livePhotoWarning] } : result
+      ];
+    }))
+  };
+}
+
+export function toPreviewResult(originalFilename: string, result: RenameResult): TemplatePreviewResult {
+  const status = result.errors?.length ? 'error' : result.warnings?.length ? 'warning' : 'success';
+
+  return {
+    original: originalFilename,
+    renamed: result.filename,
+    status,
+    warnings: result.warnings,
+    errors: result.errors,
+    metadata: {
+      tokensUsed: result.metadata?.tokensUsed || [],
+      length: result.filename.length,
+      hasConflict: result.metadata?.hasConflict ?? false
+    }
+  };
+}
+
+export function previewPhotos(
+  photos: Photo[],
+  template: string,
+  options: RenameOptions = {}
+): TemplatePreviewResult[] {
+  const { results } = renamePhotos(photos, template, options);
+
+  return photos.map(photo => toPreviewResult(photo.metadata.fileName, results.get(photo.id)!));
+}
+
+const CONFLICT_SUFFIXES: Record<ConflictSuffixFormat, (duplicate: number) => string> = {
+  '_1': n => `_${n}`,
+  '-a': n => `-${toLetters(n)}`,
+  ' (2)': n => ` (${n + 1})`,
+  '_v2': n => `_v${n + 1}`
+};
+
+/**
+ * Apply the conflictResolution mode to results that share a filename, in
+ * numbering order. The first file always keeps its name. A file's attached
+ * files claim their derived names too, so a RAW companion or an .xmp sidecar
+ * cannot take the name of another photo's file.
+ *
+ * @returns One conflict group per contested filename
+ */
+function resolveConflicts(entries: ConflictEntry[], options: RenameOptions): RenameConflict[] {
+  const mode = options.handleConflicts === false
+    ? 'overwrite'
+    : options.conflictResolution ?? 'suffix';
+  const keyOf = (entry: ConflictEntry, filename: string) => {
+    const path = entry.folder ? `${entry.folder}/${filename}` : filename;
+    return options.caseSensitiveConflicts ? path : path.toLowerCase();
+  };
+  const owners = new Map<string, number>();
+  const groups = new Map<string, RenameConflict>();
+
+  const namesOf = (entry: ConflictEntry, filename: string) => entry.attached
+    ? [filename, ...getAttachedFilenames(entry.attached, filename).values()]
+    : [filename];
+  // The first of the names that another entry already holds
+  const findTaken = (entry: ConflictEntry, filename: string, index: number) =>
+    namesOf(entry, filename).find(name => (owners.get(keyOf(entry, name)) ?? index) !== index);
+  const claim = (entry: ConflictEntry, filename: string, index: number) => {
+    namesOf(entry, filename).forEach(name => owners.set(keyOf(entry, name), index));
+    return filename;
+  };
+  const withSuffix = (entry: ConflictEntry, filename: string, index: number) => {
+    const { name, ext } = parseFilename(filename);
+    const format = CONFLICT_SUFFIXES[options.conflictSuffix ?? '_1'];
+    let candidate = filename;
+
+    for (let n = 1; findTaken(entry, candidate, index) !== undefined; n++) {
+      candidate = ext ? `${name}${format(n)}.${ext}` : `${name}${format(n)}`;
+    }
+    return candidate;
+  };
+
+  entries.forEach((entry, index) => {
+    const taken = findTaken(entry, entry.result.filename, index);
+
+    if (taken === undefined) {
+      claim(entry, entry.result.filename, index);
+      return;
+    }
+
+    const key = keyOf(entry, taken);
+    const owner = entries[owners.get(key)!];
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        originalFiles: [owner.file.name],
+        newFilename: taken,
+        conflictType: 'duplicate',
+        resolution: mode,
+        resolvedFilenames: [owner.result.filename]
+      };
+      groups.set(key, group);
+      owner.result = markConflict(owner.result, {});
+    }
+
+    if (mode === 'overwrite') {
+      // Only the names this entry takes are lost; the rest of each owner is still exported
+      const taking = new Set(namesOf(entry, entry.result.filename).map(name => keyOf(entry, name)));
+      const replaced = new Set(Array.from(taking, key => owners.get(key) ?? index));
+      replaced.delete(index);
+
+      replaced.forEach(ownerIndex => {
+        const previous = entries[ownerIndex];
+        const { result } = previous;
+        const names = namesOf(previous, result.filename)
+          .filter(name => taking.has(keyOf(previous, name)) && owners.get(keyOf(previous, name)) === ownerIndex);
+
+        previous.result = markConflict(result, {
+          overwritten: result.metadata?.overwritten || names.includes(result.filename),
+          overwrittenNames: [...(result.metadata?.overwrittenNames ?? []), ...names]
+        }, `${names.join(', ')} replaced by ${entry.file.name}, which gets the same name`);
+      });
+      entry.result = markConflict(entry.result, {},
+        `Replaces ${owner.file.name}, which had the same name`);
+      claim(entry, entry.result.filename, index);
+    } else if (mode === 'skip') {
+      entry.result = markConflict(
+        { ...entry.result, filename: claim(entry, withSuffix(entry, entry.file.name, index), index) },
+        { skipped: true },
+        `Not renamed: ${taken} is already used by ${owner.file.name}`
+      );
+    } else {
+      entry.result = markConflict(
+        { ...entry.result, filename: claim(entry, withSuffix(entry, entry.result.filename, index), index) },
+        {},
+        `Filename conflict with ${owner.file.name} resolved with a suffix`
+      );
+    }
+
+    group.originalFiles.push(entry.file.name);
+    group.resolvedFilenames!.push(entry.result.filename);
+  });
+
+  return Array.from(groups.values());
+}
+
+function markConflict(
   result: RenameResult,
-  usedFilenames: Set<string>
+  flags: Pick<RenameMetadata, 'skipped' | 'overwritten' | 'overwrittenNames'>,
+  warning?: string
 ): RenameResult {
-  const { name, ext } = parseFilename(result.filename);
-  let counter = 1;
-  let newFilename: string;
-  
-  do {
-    const suffix = `_${counter}`;
-    newFilename = ext ? `${name}${suffix}.${ext}` : `${name}${suffix}`;
-    counter++;
-  } while (usedFilenames.has(newFilename));
-  
   return {
     ...result,
-    filename: newFilename,
-    warnings: [
-      ...(result.warnings || []),
-      'Filename conflict resolved with numeric suffix'
-    ]
+    warnings: warning ? [...(result.warnings || []), warning] : result.warnings,
+    metadata: result.metadata && { ...result.metadata, ...flags, hasConflict: true }
   };
 }
 
-export function validateTemplate(template: string): { isValid: boolean; errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+// 1 → a, 26 → z, 27 → aa
+function toLetters(n: number): string {
+  let letters = '';
+  for (let rest = n; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    letters = String.fromCharCode(97 + ((rest - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+export function validateTemplate(template: string): TemplateValidation {
+  const warnings: TemplateWarning[] = [];
 
   if (!template || template.trim().length === 0) {
-    errors.push('Template cannot be empty');
-    return { isValid: false, errors, warnings };
+    return {
+      isValid: false,
+      errors: [{ type: 'empty_template', message: 'Template cannot be empty', severity: 'error' }],
+      warnings
+    };
   }
 
-  const tokens = parseTemplate(template);
-  const invalidTokens = tokens.filter(t => !t.isValid);
+  const parsed = parseTemplate(template);
+  const allErrors = [...parsed.errors, ...validateOriginalReferences(parsed)];
+  const errors = allErrors.filter(e => e.severity === 'error');
+  const suggestions = suggestTokens(parsed);
+
+  if (parsed.tokenCount === 0) {
+    warnings.push({ type: 'no_dynamic_content', message: 'Template has no dynamic tokens' });
+  }
 
-  if (invalidTokens.length > 0) {
-    invalidTokens.forEach(token => {
-      errors.push(`Invalid token: ${token.fullToken}`);
+  findSections(parsed.nodes)
+    .filter(section => !containsToken(section.children))
+    .forEach(section => {
+      warnings.push({
+        type: 'no_dynamic_content',
+        message: `Optional section ${section.source} has no tokens and will always be shown`
+      });
+    });
+
+  const invalidChars = /[<>:"/\\|?*]/;
+  if (parsed.literalParts.some(part => invalidChars.test(part))) {
+    warnings.push({
+      type: 'special_characters',
+      message: 'Template contains characters that may be invalid in filenames'
     });
   }
 
-  if (tokens.length === 0) {
-    warnings.push('Template has no dynamic tokens');
+  return {
+    isValid: errors.length === 0,
+    errors: allErrors,
+    warnings,
+    suggestions: suggestions.length > 0 ? suggestions : undefined
+  };
+}
+
+function findSections(nodes: TemplateNode[]): TemplateSectionNode[] {
+  return nodes.filter((node): node is TemplateSectionNode => node.type === 'section');
+}
+
+function containsToken(nodes: TemplateNode[]): boolean {
+  return nodes.some(node => node.type === 'token');
+}
+
+function suggestTokens(parsed: ParsedTemplate): string[] {
+  const suggestions: string[] = [];
+
+  parsed.tokens
+    .filter(t => !t.isValid && !isRegisteredToken(t.token))
+    .forEach(t => {
+      const match = getAllTokenDocumentation().map(d => d.token).find(
+        name => name.toLowerCase() === t.token.trim().toLowerCase()
+      );
+      if (match) suggestions.push(`Did you mean {${match}} instead of ${t.fullToken}?`);
+    });
+
+  return suggestions;
+}
+
+export function getAutocompleteSuggestions(
+  template: string,
+  cursor: number
+): { replaceFrom: number; suggestions: AutocompleteSuggestion[] } {
+  const before = template.slice(0, cursor);
+  const open = before.lastIndexOf('{');
+
+  if (open === -1 || before.lastIndexOf('}') > open || before[open - 1] === '{') {
+    return { replaceFrom: cursor, suggestions: [] };
+  }
+
+  const body = before.slice(open + 1);
+
+  if (body.startsWith('=')) {
+    return getExpressionSuggestions(body, open + 1);
   }
 
-  const templateWithoutTokens = template.replace(/\{[^}]+\}/g, '');
-  const invalidChars = /[<>:"/\\|?*]/g;
-  if (invalidChars.test(templateWithoutTokens)) {
-    warnings.push('Template contains characters that may be invalid in filenames');
+  const closes = template[cursor] === '}' || template[cursor] === '|';
+  const pipeIndex = body.lastIndexOf('|');
+
+  if (pipeIndex !== -1) {
+    const partial = body.slice(pipeIndex + 1).toLowerCase();
+    const suggestions = Object.entries(TOKEN_MODIFIERS)
+      .filter(([name]) => name.startsWith(partial))
+      .map(([name, modifier]) => ({
+        token: name,
+        display: modifier.usage,
+        description: modifier.description,
+        insertText: modifier.minArgs > 0 ? `${name}:` : name,
+        score: name === partial ? 2 : 1,
+        category: 'modifier'
+      }));
+
+    return { replaceFrom: open + 1 + pipeIndex + 1, suggestions };
   }
 
-  return { isValid: errors.length === 0, errors, warnings };
+  const alternativeStart = body.lastIndexOf('?') + 1;
+  const word = body.slice(alternativeStart);
+
+  if (word.includes(':')) {
+    return { replaceFrom: cursor, suggestions: [] };
+  }
+
+  const partial = word.toLowerCase();
+  const suggestions = getAllTokenDocumentation()
+    .map(doc => ({
+      doc,
+      score: doc.token.startsWith(word) ? 2 : doc.token.toLowerCase().startsWith(partial) ? 1 :
+        doc.token.toLowerCase().includes(partial) ? 0.5 : 0
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.doc.token.localeCompare(b.doc.token))
+    .map(({ doc, score }) => ({
+      token: doc.token,
+      display: `{${doc.token}}`,
+      description: doc.description,
+      insertText: closes || alternativeStart > 0 ? doc.token : `${doc.token}}`,
+      score,
+      category: doc.category
+    }));
+
+  return { replaceFrom: open + 1 + alternativeStart, suggestions };
+}
+
+// Inside {= ...} the word at the cursor completes to a field or function name
+function getExpressionSuggestions(
+  body: string,
+  bodyStart: number
+): { replaceFrom: number; suggestions: AutocompleteSuggestion[] } {
+  const partial = /[A-Za-z_]\w*$/.exec(body)?.[0] ?? '';
+  const replaceFrom = bodyStart + body.length - partial.length;
+  const afterPipe = /\|\s*\w*$/.test(body) && !/\|\|\s*\w*$/.test(body);
+  const score = (name: string) => name === partial ? 2 : 1;
+
+  if (!partial && !afterPipe) return { replaceFrom, suggestions: [] };
+
+  const fields = afterPipe ? [] : Object.entries(EXPRESSION_FIELDS)
+    .filter(([name]) => name.startsWith(partial))
+    .map(([name, field]) => ({
+      token: name,
+      display: name,
+      description: `${field.description} (${field.type})`,
+      insertText: name,
+      score: score(name),
+      category: 'field'
+    }));
+
+  const functions = Object.entries(EXPRESSION_FUNCTIONS)
+    .filter(([name]) => name.startsWith(partial))
+    .map(([name, fn]) => ({
+      token: name,
+      display: fn.usage,
+      description: fn.description,
+      insertText: afterPipe ? name : `${name}(`,
+      score: score(name),
+      category: 'function'
+    }));
+
+  return { replaceFrom, suggestions: [...fields, ...functions] };
 }
 
 export function previewRename(
   files: File[],
   template: string,
-  exifDataMap: Map<string, ExifData | null>,
+  exifDataMap: Map<File | string, ExifData | null>,
   options: RenameOptions = {}
-): Array<{ original: string; renamed: string; warnings?: string[] }> {
-  const renameResults = batchRename(files, template, exifDataMap, options);
+): TemplatePreviewResult[] {
+  const { results } = batchRename(files, template, exifDataMap, options);
   
-  return Array.from(renameResults.entries()).map(([file, result]) => ({
-    original: file.name,
-    renamed: result.filename,
-    warnings: result.warnings
-  }));
+  return Array.from(results.entries()).map(([file, result]) =>
+    toPreviewResult(file.name, result)
+  );
 }
 
 export const TEMPLATE_PRESETS = {
@@ -0,0 +1,552 @@
+import { writable } from 'svelte/store';
+import type { ExifData } from '../types/exif';
+import type {
+  TemplateResolver,
+  ResolverContext,
+  TokenDocumentation,
+  TokenParameter
+} from '../types/template';
+import {
+  applyUtcOffset,
+  formatDatePattern,
+  formatDuration,
+  isValidTimeZone,
+  parseUtcOffset,
+  toTimeZone
+} from './formatters';
+import { compileExpression, evaluateExpression, type CompiledExpression } from './expression';
+
+export interface RegisteredResolver extends TemplateResolver {
+  id: string;
+  documentation: TokenDocumentation[];
+  isBuiltIn?: boolean;
+}
+
+export type TokenResolveFn = (token: string, context: ResolverContext) => string | null;
+
+export const TOKEN_CATEGORY_LABELS: Record<TokenDocumentation['category'], string> = {
+  date: 'Date & Time',
+  camera: 'Camera',
+  settings: 'Settings',
+  image: 'Image',
+  gps: 'Location',
+  video: 'Video',
+  utility: 'Utility',
+  custom: 'Custom'
+};
+
+const BUILTIN_PRIORITY = 0;
+const CUSTOM_PRIORITY = 10;
+
+let resolvers: RegisteredResolver[] = [];
+let documentationByToken = new Map<string, TokenDocumentation>();
+
+const documentationStore = writable<TokenDocumentation[]>([]);
+
+export const registeredTokens = { subscribe: documentationStore.subscribe };
+
+/**
+ * Register a resolver for one or more template tokens
+ * Higher priority resolvers win when several can resolve the same token,
+ * so a custom resolver can override a built-in one
+ *
+ * @param resolver - Resolver with its documentation entries
+ * @returns Function that unregisters the resolver
+ */
+export function registerTokenResolver(
+  resolver: Omit<RegisteredResolver, 'priority'> & { priority?: number }
+): () => void {
+  const entry: RegisteredResolver = {
+    ...resolver,
+    priority: resolver.priority ?? (resolver.isBuiltIn ? BUILTIN_PRIORITY : CUSTOM_PRIORITY)
+  };
+
+  resolvers = [...resolvers.filter(r => r.id !== entry.id), entry];
+  refreshRegistry();
+
+  return () => unregisterTokenResolver(entry.id);
+}
+
+/**
+ * Register a single custom token such as {client} or {shootCode}
+ *
+ * @param documentation - Token documentation shown in the editor palette
+ * @param resolve - Returns the token value, or null when it is unavailable
+ * @returns Function that unregisters the token
+ */
+export function registerCustomToken(
+  documentation: Omit<TokenDocumentation, 'category' | 'type'> &
+    Partial<Pick<TokenDocumentation, 'category' | 'type'>>,
+  resolve: (context: ResolverContext) => string | null
+): () => void {
+  const doc: TokenDocumentation = {
+    category: 'custom',
+    type: documentation.token,
+    ...documentation
+  };
+
+  return registerTokenResolver({
+    id: `custom:${doc.token}`,
+    documentation: [doc],
+    canResolve: token => token === doc.token,
+    resolve: (_, context) => resolve(context)
+  });
+}
+
+export function unregisterTokenResolver(id: string): void {
+  resolvers = resolvers.filter(r => r.id !== id || r.isBuiltIn);
+  refreshRegistry();
+}
+
+export function findResolver(token: string): RegisteredResolver | undefined {
+  return resolvers.find(r => r.canResolve(token));
+}
+
+export function isRegisteredToken(token: string): boolean {
+  return findResolver(token) !== undefined;
+}
+
+export function getTokenDocumentation(token: string): TokenDocumentation | undefined {
+  return documentationByToken.get(token);
+}
+
+export function getAllTokenDocumentation(): TokenDocumentation[] {
+  return Array.from(documentationByToken.values());
+}
+
+function refreshRegistry(): void {
+  resolvers.sort((a, b) => b.priority - a.priority);
+
+  documentationByToken = new Map();
+  resolvers.forEach(resolver => {
+    resolver.documentation.forEach(doc => {
+      if (!documentationByToken.has(doc.token)) {
+        documentationByToken.set(doc.token, doc);
+      }
+    });
+  });
+
+  documentationStore.set(getAllTokenDocumentation());
+}
+
+function registerBuiltIn(
+  id: string,
+  documentation: TokenDocumentation[],
+  resolve: TokenResolveFn
+): void {
+  const tokens = new Set(documentation.map(doc => doc.token));
+
+  registerTokenResolver({
+    id: `builtin:${id}`,
+    documentation,
+    isBuiltIn: true,
+    canResolve: token => tokens.has(token),
+    resolve
+  });
+}
+
+function doc(
+  token: TokenDocumentation['token'],
+  category: TokenDocumentation['category'],
+  description: string,
+  exampleOutput: string,
+  extra: Partial<TokenDocumentation> = {}
+): TokenDocumentation {
+  return {
+    token,
+    type: token,
+    category,
+    description,
+    example: `{${token}}`,
+    exampleOutput,
+    requiresExif: category !== 'utility',
+    ...extra
+  };
+}
+
+const TIMEZONE_QUALIFIER: TokenParameter = {
+  name: 'timezone',
+  type: 'timezone',
+  required: false,
+  description: 'IANA timezone to convert the capture time to, e.g. Europe/Paris'
+};
+
+const dateDoc = (
+  token: string,
+  description: string,
+  exampleOutput: string,
+  extra: Partial<TokenDocumentation> = {}
+) => doc(token, 'date', description, exampleOutput, { qualifier: TIMEZONE_QUALIFIER, ...extra });
+
+registerBuiltIn(
+  'date',
+  [
+    dateDoc('YYYY', 'Year (4 digits)', '2024'),
+    dateDoc('YY', 'Year (2 digits)', '24'),
+    dateDoc('MM', 'Month (01-12)', '06'),
+    dateDoc('MMM', 'Month name (short)', 'Jun'),
+    dateDoc('MMMM', 'Month name (full)', 'June'),
+    dateDoc('DD', 'Day (01-31)', '01'),
+    dateDoc('ddd', 'Weekday name (short)', 'Sat'),
+    dateDoc('dddd', 'Weekday name (full)', 'Saturday'),
+    dateDoc('HH', 'Hour (00-23)', '14'),
+    dateDoc('mm', 'Minute (00-59)', '25'),
+    dateDoc('ss', 'Second (00-59)', '30'),
+    dateDoc('date', 'Full date (YYYYMMDD), or a custom pattern', '20240601', {
+      example: '{date:YYYY-MM-DD}',
+      parameters: [
+        {
+          name: 'format',
+          type: 'string',
+          required: false,
+          default: 'YYYYMMDD',
+          description: 'Date pattern, e.g. YYYY-MM-DD or DD_MMM_YYYY'
+        }
+      ]
+    }),
+    dateDoc('datetime', 'Date and time (YYYYMMDD_HHMMSS)', '20240601_142530'),
+    doc('timestamp', 'date', 'Unix timestamp', '1717251930')
+  ],
+  (token, context) => {
+    if (!context.date) return null;
+
+    const dateOptions = context.options?.tokenOptions?.date ?? {};
+
+    if (token === 'timestamp') {
+      return String(Math.floor(captureInstant(context).getTime() / 1000));
+    }
+
+    const pattern = token === 'date'
+      ? context.parameters?.[0] || dateOptions.format || 'YYYYMMDD'
+      : token === 'datetime' ? 'YYYYMMDD_HHmmss' : token;
+
+    return formatDatePattern(displayDate(context), pattern, dateOptions.locale);
+  }
+);
+
+registerBuiltIn(
+  'camera',
+  [
+    doc('make', 'camera', 'Camera manufacturer', 'Canon'),
+    doc('model', 'camera', 'Camera model', 'EOS_R5'),
+    doc('lens', 'camera', 'Lens model', 'RF24-70mm_F28_L_IS_USM')
+  ],
+  (token, { exifData }) => {
+    const exif = exifData as ExifData | null | undefined;
+
+    switch (token) {
+      case 'make': return exif?.make ? sanitizeToken(exif.make) : null;
+      case 'model': return exif?.model ? sanitizeToken(exif.model) : null;
+      case 'lens': return exif?.lensModel ? sanitizeToken(exif.lensModel) : null;
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'settings',
+  [
+    doc('iso', 'settings', 'ISO value', 'ISO800'),
+    doc('aperture', 'settings', 'Aperture (f-number)', 'f2.8'),
+    doc('shutter', 'settings', 'Shutter speed', '1250s'),
+    doc('focal', 'settings', 'Focal length', '35mm')
+  ],
+  (token, { exifData }) => {
+    const exif = exifData as ExifData | null | undefined;
+
+    switch (token) {
+      case 'iso': return exif?.iso ? `ISO${exif.iso}` : null;
+      case 'aperture': return exif?.fNumber ? `f${exif.fNumber}` : null;
+      case 'shutter': {
+        if (!exif?.exposureTime) return null;
+        const exposure = typeof exif.exposureTime === 'number'
+          ? exif.exposureTime
+          : parseFloat(exif.exposureTime) || 0;
+        return formatShutterSpeed(exposure) || null;
+      }
+      case 'focal': return exif?.focalLength ? `${exif.focalLength}mm` : null;
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'image',
+  [
+    doc('width', 'image', 'Image width', '8192'),
+    doc('height', 'image', 'Image height', '5464'),
+    doc('dimensions', 'image', 'Width x Height', '8192x5464'),
+    doc('orientation', 'image', 'Orientation', '1')
+  ],
+  (token, { exifData }) => {
+    const exif = exifData as ExifData | null | undefined;
+
+    switch (token) {
+      case 'width': return exif?.width ? String(exif.width) : null;
+      case 'height': return exif?.height ? String(exif.height) : null;
+      case 'dimensions':
+        return exif?.width && exif?.height ? `${exif.width}x${exif.height}` : null;
+      case 'orientation': return String(exif?.orientation || 1);
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'gps',
+  [
+    doc('lat', 'gps', 'GPS Latitude', '48.858370'),
+    doc('lng', 'gps', 'GPS Longitude', '2.294481'),
+    doc('gps', 'gps', 'GPS coordinates', '48.858370_2.294481')
+  ],
+  (token, { exifData }) => {
+    const gps = (exifData as ExifData | null | undefined)?.gps;
+
+    switch (token) {
+      case 'lat': return gps?.lat ? gps.lat.toFixed(6) : null;
+      case 'lng': return gps?.lng ? gps.lng.toFixed(6) : null;
+      case 'gps':
+        return gps?.lat && gps?.lng ? `${gps.lat.toFixed(6)}_${gps.lng.toFixed(6)}` : null;
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'video',
+  [
+    doc('duration', 'video', 'Clip length', '1m5s'),
+    doc('fps', 'video', 'Frame rate', '29.97fps')
+  ],
+  (token, { exifData }) => {
+    const exif = exifData as ExifData | null | undefined;
+
+    switch (token) {
+      case 'duration':
+        return exif?.duration ? formatDuration(Math.round(exif.duration) * 1000).replace(/ /g, '') : null;
+      case 'fps': return exif?.frameRate ? `${parseFloat(exif.frameRate.toFixed(2))}fps` : null;
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'utility',
+  [
+    doc('counter', 'utility', 'Sequential counter (001, 002...)', '001', {
+      example: '{counter:5}',
+      parameters: [
+        {
+          name: 'padding',
+          type: 'number',
+          required: false,
+          default: 3,
+          description: 'Number of digits',
+          validation: { min: 1, max: 10 }
+        }
+      ],
+      qualifier: {
+        name: 'scope',
+        type: 'token',
+        required: false,
+        description: 'Restart numbering for each value of another token, e.g. {counter:3@date}'
+      }
+    }),
+    doc('original', 'utility', 'Original filename (without extension)', 'IMG_0001', {
+      example: '{original:IMG_<date>_<frame>}',
+      parameters: [
+        {
+          name: 'pattern',
+          type: 'string',
+          required: false,
+          description: 'Declares a pattern for {orig.*} and renders nothing; <name> captures, * any, # digit'
+        }
+      ]
+    }),
+    doc('ext', 'utility', 'File extension', 'jpg'),
+    doc('custom', 'utility', 'Custom text input', 'Wedding'),
+    doc('var', 'utility', 'Named variable set for the batch or per photo', 'Smith', {
+      example: '{var:client}',
+      parameters: [
+        {
+          name: 'name',
+          type: 'string',
+          required: true,
+          description: 'Variable name',
+          validation: { pattern: '^\\w+$' }
+        }
+      ]
+    })
+  ],
+  (token, context) => {
+    const { counter = 1, options = {}, parameters, originalFilename = '' } = context;
+
+    switch (token) {
+      case 'counter': {
+        const counterOptions = options.tokenOptions?.counter ?? {};
+        const scope = context.qualifier || counterOptions.scope;
+        const value = scope ? context.scopedCounters?.[scope] ?? counter : counter;
+        const padding = parameters?.length
+          ? parseInt(parameters[0], 10)
+          : counterOptions.padding ?? options.counterPadding ?? 3;
+
+        return `${counterOptions.prefix ?? ''}${String(value).padStart(padding, '0')}` +
+          (counterOptions.suffix ?? '');
+      }
+      // With a pattern the token only declares how to split the name
+      case 'original': return parameters?.length ? '' : splitFilename(originalFilename).name;
+      case 'ext': return splitFilename(originalFilename).ext;
+      case 'custom': return options.customText ?? '';
+      case 'var': return context.customValues?.[parameters?.[0] ?? ''] || null;
+      default: return null;
+    }
+  }
+);
+
+registerBuiltIn(
+  'folder',
+  [
+    doc('folder', 'utility', 'Folder the file was dropped in, or a parent with a level', 'Ceremony', {
+      example: '{folder:2}',
+      parameters: [
+        {
+          name: 'level',
+          type: 'number',
+          required: false,
+          default: 1,
+          description: '1 is the folder holding the file, 2 its parent, and so on',
+          validation: { min: 1, max: 20 }
+        }
+      ]
+    }),
+    doc('path', 'utility', 'Folders from the dropped folder down to the file', 'Wedding_Day1_Ceremony', {
+      example: '{path:-}',
+      parameters: [
+        {
+          name: 'separator',
+          type: 'string',
+          required: false,
+          default: '_',
+          description: 'Text between folder names'
+        }
+      ]
+    })
+  ],
+  (token, { relativePath, parameters }) => {
+    const folders = relativePath?.split('/').slice(0, -1).filter(Boolean) ?? [];
+    if (folders.length === 0) return null;
+
+    switch (token) {
+      case 'folder': {
+        const level = parameters?.length ? parseInt(parameters[0], 10) : 1;
+        const folder = folders[folders.length - level];
+        return folder ? sanitizeToken(folder) : null;
+      }
+      case 'path':
+        return folders.map(sanitizeToken).join(parameters?.[0] ?? '_');
+      default: return null;
+    }
+  }
+);
+
+registerTokenResolver({
+  id: 'builtin:orig',
+  isBuiltIn: true,
+  documentation: [
+    doc('orig.1', 'utility', 'Piece of the original filename, by name or number', '4821', {
+      example: '{orig.frame}'
+    })
+  ],
+  canResolve: token => /^orig\.\w+$/.test(token),
+  resolve: (token, { originalParts }) => originalParts?.[token.slice('orig.'.length)] ?? null
+});
+
+const compiledExpressions = new Map<string, CompiledExpression>();
+
+// The parser stores the expression source of {= ...} as the token's only parameter
+registerTokenResolver({
+  id: 'builtin:expression',
+  isBuiltIn: true,
+  documentation: [
+    doc('=', 'utility', 'Calculated value from EXIF fields', '53', {
+      example: '{= focal * 1.5 | round}',
+      parameters: [
+        {
+          name: 'expression',
+          type: 'string',
+          required: true,
+          description: 'Arithmetic, comparisons, ?: and functions such as round()'
+        }
+      ]
+    })
+  ],
+  canResolve: token => token === '=',
+  resolve: (_token, context) => {
+    const source = context.parameters?.[0] ?? '';
+    let compiled = compiledExpressions.get(source);
+
+    if (!compiled) {
+      compiled = compileExpression(source);
+      compiledExpressions.set(source, compiled);
+    }
+
+    return evaluateExpression(compiled, context);
+  }
+});
+
+/**
+ * EXIF capture times have no zone, so exifr reads them as browser-local time.
+ * With useExifOffset the recorded OffsetTimeOriginal pins them to the real instant.
+ */
+function captureInstant({ date, exifData, options }: ResolverContext): Date {
+  const exif = exifData as ExifData | null | undefined;
+  const isCaptureTime = !!exif?.dateTaken && exif.dateTaken.getTime() === date!.getTime();
+  const offset = options?.tokenOptions?.date?.useExifOffset && isCaptureTime
+    ? parseUtcOffset(exif!.offsetTime)
+    : null;
+
+  return offset === null ? date! : applyUtcOffset(date!, offset);
+}
+
+// Wall-clock time as shot, or converted to the token's (or default) timezone
+function displayDate(context: ResolverContext): Date {
+  const timeZone = context.qualifier || context.options?.tokenOptions?.date?.timezone;
+  if (!timeZone || !isValidTimeZone(timeZone)) return context.date!;
+
+  return toTimeZone(captureInstant(context), timeZone);
+}
+
+function formatShutterSpeed(speed: string | number | null | undefined): string {
+  if (!speed) return '';
+
+  const numSpeed = typeof speed === 'number' ? speed : parseFloat(String(speed));
+
+  if (isNaN(numSpeed) || numSpeed <= 0) return '';
+
+  if (numSpeed >= 1) {
+    return `${numSpeed}s`;
+  } else {
+    const denominator = Math.round(1 / numSpeed);
+    return `1/${denominator}s`;
+  }
+}
+
+function sanitizeToken(value: string): string {
+  return value
+    .replace(/[^\w\s-]/g, '') // Remove special chars except word chars, spaces, hyphens
+    .replace(/\s+/g, '_') // Replace spaces with underscores
+    .trim();
+}
+
+function splitFilename(filename: string): { name: string; ext: string } {
+  const lastDotIndex = filename.lastIndexOf('.');
+
+  if (lastDotIndex <= 0) {
+    return { name: filename, ext: '' };
+  }
+
+  return {
+    name: filename.substring(0, lastDotIndex),
+    ext: filename.substring(lastDotIndex + 1)
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { ExifData } from '../types/exif';
+import type { ResolvedTemplateRule, TemplateRuleCondition } from '../types/template';
+import { matchesCondition, selectTemplateRule } from './rules';
+
+const exif = (fields: Partial<ExifData>) => ({ raw: {}, ...fields }) as ExifData;
+
+const resolved = (id: string, condition: TemplateRuleCondition, enabled?: boolean): ResolvedTemplateRule => ({
+  rule: { id, name: id, condition, presetId: `preset-${id}`, enabled },
+  template: `{original}_${id}`
+});
+
+describe('selectTemplateRule', () => {
+  it('picks the first enabled rule that matches', () => {
+    const rules = [
+      resolved('off', {}, false),
+      resolved('raw', { fileTypes: ['.DNG'] }),
+      resolved('canon', { cameraMake: ['canon'] }),
+      resolved('any', {})
+    ];
+
+    expect(selectTemplateRule(rules, { name: 'a.dng', exifData: exif({ make: 'Canon' }) })?.rule.id).toBe('raw');
+    expect(selectTemplateRule(rules, { name: 'a.jpg', exifData: exif({ make: 'Canon' }) })?.rule.id).toBe('canon');
+    expect(selectTemplateRule(rules, { name: 'a.jpg', exifData: null })?.rule.id).toBe('any');
+    expect(selectTemplateRule(rules.slice(0, 3), { name: 'a.jpg', exifData: null })).toBeUndefined();
+  });
+});
+
+describe('matchesCondition', () => {
+  it('includes both ends of the date range', () => {
+    const condition = { dateRange: { start: '2024-06-01', end: '2024-06-02' } };
+    const on = (day: number) => ({ name: 'a.jpg', exifData: exif({ dateTaken: new Date(2024, 5, day, 23, 0) }) });
+
+    expect([1, 2, 3].map(day => matchesCondition(condition, on(day)))).toEqual([true, true, false]);
+    expect(matchesCondition(condition, { name: 'a.jpg', exifData: null })).toBe(false);
+  });
+
+  it('reads orientation after the EXIF rotation', () => {
+    const subject = (orientation: number) => ({
+      name: 'a.jpg',
+      exifData: exif({ width: 6000, height: 4000, orientation })
+    });
+
+    expect(matchesCondition({ orientation: 'landscape' }, subject(1))).toBe(true);
+    expect(matchesCondition({ orientation: 'portrait' }, subject(6))).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import type { ExifData } from '../types/exif';
+import type {
+  ResolvedTemplateRule,
+  TemplateRule,
+  TemplateRuleCondition
+} from '../types/template';
+
+export interface RuleSubject {
+  name: string;
+  exifData: ExifData | null;
+}
+
+/**
+ * Find the first enabled rule whose condition matches a file
+ *
+ * @returns The matching rule with its template, or undefined to use the batch template
+ */
+export function selectTemplateRule(
+  rules: ResolvedTemplateRule[],
+  subject: RuleSubject
+): ResolvedTemplateRule | undefined {
+  return rules.find(({ rule }) => rule.enabled !== false && matchesCondition(rule.condition, subject));
+}
+
+/**
+ * Check a file against a rule condition
+ * Every field that is set must match; an empty condition matches everything
+ */
+export function matchesCondition(condition: TemplateRuleCondition, subject: RuleSubject): boolean {
+  const { exifData } = subject;
+
+  if (condition.cameraMake?.length && !containsAny(exifData?.make, condition.cameraMake)) {
+    return false;
+  }
+
+  if (condition.cameraModel?.length && !containsAny(exifData?.model, condition.cameraModel)) {
+    return false;
+  }
+
+  if (condition.hasGPS !== undefined && !!exifData?.gps !== condition.hasGPS) {
+    return false;
+  }
+
+  if (condition.fileTypes?.length) {
+    const ext = subject.name.split('.').pop()?.toLowerCase() ?? '';
+    const types = condition.fileTypes.map(type => type.replace(/^\./, '').toLowerCase());
+    if (!types.includes(ext)) return false;
+  }
+
+  if (condition.dateRange && !inDateRange(exifData?.dateTaken ?? null, condition.dateRange)) {
+    return false;
+  }
+
+  if (condition.orientation && getOrientation(exifData) !== condition.orientation) {
+    return false;
+  }
+
+  return true;
+}
+
+export function createTemplateRule(presetId: string, name: string = 'New rule'): TemplateRule {
+  return {
+    id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    condition: {},
+    presetId,
+    enabled: true
+  };
+}
+
+function containsAny(value: string | null | undefined, needles: string[]): boolean {
+  if (!value) return false;
+
+  const haystack = value.toLowerCase();
+  return needles.some(needle => needle.trim() !== '' && haystack.includes(needle.trim().toLowerCase()));
+}
+
+function inDateRange(
+  date: Date | null,
+  range: NonNullable<TemplateRuleCondition['dateRange']>
+): boolean {
+  if (!date) return false;
+
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+
+  if (range.start && day < range.start) return false;
+  if (range.end && day > range.end) return false;
+  return true;
+}
+
+// EXIF orientations 5-8 are rotated by 90°, so width and height swap
+function getOrientation(exifData: ExifData | null): TemplateRuleCondition['orientation'] | null {
+  if (!exifData?.width || !exifData?.height) return null;
+
+  const rotated = exifData.orientation >= 5 && exifData.orientation <= 8;
+  const width = rotated ? exifData.height : exifData.width;
+  const height = rotated ? exifData.width : exifData.height;
+
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+}
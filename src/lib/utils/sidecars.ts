@@ -0,0 +1,108 @@
+import type { Photo } from '../types/photo';
+
+// Lightroom edits, iPhone edits, video thumbnails and voice notes
+export const SIDECAR_EXTENSIONS = ['.xmp', '.aae', '.thm', '.wav'];
+
+// A sidecar with no photo yet; a later drop may bring its image
+export interface OrphanSidecar {
+  file: File;
+  relativePath?: string;
+}
+
+export interface AttachResult {
+  photos: Photo[];
+  orphans: OrphanSidecar[];
+}
+
+export function isSidecarFile(file: File): boolean {
+  return SIDECAR_EXTENSIONS.includes(getExtension(file.name).toLowerCase());
+}
+
+/**
+ * Attach sidecars to the photo whose file they are named after
+ * "IMG_0001.xmp" and "IMG_0001.CR2.xmp" both belong to IMG_0001.CR2 and
+ * to the JPEG it is paired with. Sidecars only match within their folder.
+ *
+ * @returns The photos with their sidecars, and the sidecars no photo matched
+ */
+export function attachSidecars(photos: Photo[], sidecars: OrphanSidecar[]): AttachResult {
+  const byKey = new Map<string, Photo>();
+  photos.forEach(photo => {
+    getPhotoKeys(photo).forEach(key => {
+      if (!byKey.has(key)) byKey.set(key, photo);
+    });
+  });
+
+  const attached = new Map<string, File[]>();
+  const orphans: OrphanSidecar[] = [];
+
+  sidecars.forEach(sidecar => {
+    const owner = getSidecarKeys(sidecar).map(key => byKey.get(key)).find(Boolean);
+    if (owner) {
+      attached.set(owner.id, [...(attached.get(owner.id) ?? []), sidecar.file]);
+    } else {
+      orphans.push(sidecar);
+    }
+  });
+
+  return {
+    photos: attached.size === 0
+      ? photos
+      : photos.map(photo => attached.has(photo.id)
+        ? { ...photo, sidecars: [...(photo.sidecars ?? []), ...attached.get(photo.id)!] }
+        : photo),
+    orphans
+  };
+}
+
+/**
+ * Name a sidecar after its photo's new name
+ * Everything after the shared stem is kept, so IMG_0001.CR2.xmp becomes Smith_001.CR2.xmp
+ */
+export function getSidecarFilename(photo: Pick<Photo, 'file' | 'companions'>, filename: string, sidecar: File): string {
+  const ownExtension = getExtension(photo.file.name);
+  const stem = ownExtension && filename.toLowerCase().endsWith(ownExtension.toLowerCase())
+    ? filename.slice(0, -ownExtension.length)
+    : filename;
+
+  const sources = [photo.file, ...(photo.companions ?? [])].map(file => getStem(file.name).toLowerCase());
+  const sourceStem = sources.find(source => sidecar.name.toLowerCase().startsWith(`${source}.`));
+  const suffix = sourceStem !== undefined
+    ? sidecar.name.slice(sourceStem.length)
+    : getExtension(sidecar.name);
+
+  return `${stem}${suffix}`;
+}
+
+// A photo answers to the stems and full names of its own file and its companions
+function getPhotoKeys(photo: Photo): string[] {
+  const folder = getFolder(photo.metadata.relativePath);
+  return [photo.file, ...(photo.companions ?? [])].flatMap(file => [
+    `${folder}\u0000${file.name.toLowerCase()}`,
+    `${folder}\u0000${getStem(file.name).toLowerCase()}`
+  ]);
+}
+
+// Most specific first: "IMG_0001.CR2.xmp" tries "img_0001.cr2", then "img_0001"
+function getSidecarKeys({ file, relativePath }: OrphanSidecar): string[] {
+  const folder = getFolder(relativePath);
+  const name = getStem(file.name).toLowerCase();
+  const keys = [`${folder}\u0000${name}`];
+
+  if (getExtension(name)) keys.push(`${folder}\u0000${getStem(name)}`);
+  return keys;
+}
+
+function getFolder(relativePath?: string): string {
+  return relativePath ? relativePath.slice(0, relativePath.lastIndexOf('/') + 1) : '';
+}
+
+function getStem(filename: string): string {
+  return filename.slice(0, filename.length - getExtension(filename).length);
+}
+
+// ".xmp" with the dot, or "" when there is none
+function getExtension(filename: string): string {
+  const lastDot = filename.lastIndexOf('.');
+  return lastDot > 0 ? filename.slice(lastDot) : '';
+}
@@ -1,3 +1,5 @@
+import { getRawFormatFromMimeType, getRawFormatFromName, RAW_FORMATS, RAW_SIGNATURES, sniffRawFormat } from './raw';
+
 export const SUPPORTED_IMAGE_TYPES = {
   'image/jpeg': ['.jpg', '.jpeg'],
   'image/png': ['.png'],
@@ -7,7 +9,15 @@ export const SUPPORTED_IMAGE_TYPES = {
   'image/heif': ['.heif'],
   'image/tiff': ['.tif', '.tiff'],
   'image/bmp': ['.bmp'],
-  'image/avif': ['.avif']
+  'image/avif': ['.avif'],
+  'image/x-canon-cr2': ['.cr2'],
+  'image/x-canon-cr3': ['.cr3'],
+  'image/x-nikon-nef': ['.nef'],
+  'image/x-sony-arw': ['.arw'],
+  'image/x-fuji-raf': ['.raf'],
+  'image/x-olympus-orf': ['.orf'],
+  'image/x-panasonic-rw2': ['.rw2'],
+  'image/x-adobe-dng': ['.dng']
 } as const;
 
 const FILE_SIGNATURES = {
@@ -28,7 +38,8 @@ const FILE_SIGNATURES = {
   tiff: [
     [0x49, 0x49, 0x2A, 0x00], 
     [0x4D, 0x4D, 0x00, 0x2A]  
-  ]
+  ],
+  ...RAW_SIGNATURES
 } as const;
 
 export const FILE_SIZE_LIMITS = {
@@ -106,13 +117,15 @@ export async function validateFile(
   }
   warnings.push(...sizeValidation.warnings);
 
-  const typeValidation = validateMimeType(file.type, allowedTypes);
+  const mimeType = resolveMimeType(file);
+
+  const typeValidation = validateMimeType(mimeType, allowedTypes);
   if (!typeValidation.valid) {
     errors.push(...typeValidation.errors);
   }
   warnings.push(...typeValidation.warnings);
 
-  const extensionValidation = validateExtension(file.name, file.type);
+  const extensionValidation = validateExtension(file.name, mimeType);
   if (!extensionValidation.valid) {
     warnings.push(...extensionValidation.errors); 
   }
@@ -302,10 +315,14 @@ export async function validateFileSignature(file: File): Promise<ValidationResul
   try {
     const headerBytes = await readFileHeader(file, 12);
     
-    const mimeType = file.type.toLowerCase();
+    const mimeType = resolveMimeType(file);
+    const rawFormat = getRawFormatFromMimeType(mimeType);
     let signatureMatch = false;
 
-    if (mimeType.includes('jpeg')) {
+    if (rawFormat) {
+      // NEF, ARW and DNG share the TIFF header, so RAW files are identified by content
+      signatureMatch = (await sniffRawFormat(file)) === rawFormat;
+    } else if (mimeType.includes('jpeg')) {
       signatureMatch = matchesSignature(headerBytes, FILE_SIGNATURES.jpeg);
     } else if (mimeType.includes('png')) {
       signatureMatch = matchesSignature(headerBytes, FILE_SIGNATURES.png);
@@ -452,6 +469,17 @@ export function formatBytes(bytes: number, decimals: number = 2): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(decimals))} ${sizes[i]}`;
 }
 
+/**
+ * Browsers report RAW files with an empty, generic or vendor-specific type,
+ * so those are mapped to the canonical type for their extension
+ */
+export function resolveMimeType(file: File): string {
+  const mimeType = file.type.toLowerCase().trim();
+  const rawFormat = getRawFormatFromName(file.name);
+
+  return rawFormat && !isSupportedType(mimeType) ? RAW_FORMATS[rawFormat].mimeType : mimeType;
+}
+
 export function isSupportedType(mimeType: string): boolean {
   return Object.keys(SUPPORTED_IMAGE_TYPES).includes(mimeType.toLowerCase());
 }
@@ -509,6 +537,6 @@ export function quickValidate(file: File): boolean {
     file &&
     file.size > FILE_SIZE_LIMITS.MIN &&
     file.size <= FILE_SIZE_LIMITS.MAX &&
-    isSupportedType(file.type)
+    isSupportedType(resolveMimeType(file))
   );
 }
\ No newline at end of file
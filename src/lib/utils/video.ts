@@ -0,0 +1,250 @@
+import { findBox, findTopLevelBox, readBoxes, type Box } from './bmff';
+
+export const VIDEO_EXTENSIONS = ['.mov', '.mp4', '.m4v'];
+
+// ftyp brands of QuickTime and MP4 clips; HEIC and CR3 share the container but not these
+const VIDEO_BRANDS = new Set(['qt  ', 'isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'M4V ', 'M4VH', 'XAVC', '3gp4', '3gp5']);
+
+// Old QuickTime files start straight away with one of these instead of ftyp
+const QUICKTIME_TOP_LEVEL = new Set(['moov', 'mdat', 'wide', 'free', 'skip']);
+
+const MAX_MOOV_SIZE = 16 * 1024 * 1024;
+
+// Seconds between the QuickTime epoch (1904) and the Unix epoch
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+export function isVideoFile(file: File): boolean {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  return file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(extension);
+}
+
+export async function sniffVideo(file: Blob): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (header.length < 12) return false;
+
+  const type = String.fromCharCode(...header.subarray(4, 8));
+  const brand = String.fromCharCode(...header.subarray(8, 12));
+
+  return type === 'ftyp' ? VIDEO_BRANDS.has(brand) : QUICKTIME_TOP_LEVEL.has(type);
+}
+
+/**
+ * Read a clip's metadata from its moov box into exifr-style fields
+ * Capture time comes from Apple's creation date key, then ©day, then mvhd;
+ * size and frame rate from the first video track; make and model from the
+ * Apple keys or the ©mak/©mod user data. A Live Photo clip also carries the
+ * content identifier of its still
+ *
+ * @returns Fields such as CreateDate, Duration and VideoFrameRate, or null without a moov box
+ */
+export async function readVideoMetadata(file: Blob): Promise<Record<string, unknown> | null> {
+  const moov = await findTopLevelBox(file, 'moov');
+  if (!moov || moov.end - moov.start > MAX_MOOV_SIZE) return null;
+
+  const bytes = new Uint8Array(await file.slice(moov.start, moov.end).arrayBuffer());
+  const root: Box = { type: 'moov', start: 0, end: bytes.length };
+  const tags = { ...readUserData(bytes, root), ...readMetadataKeys(bytes, root) };
+
+  const fields: Record<string, unknown> = {
+    ...readMovieHeader(bytes, root),
+    ...readVideoTrack(bytes, root)
+  };
+
+  const make = tags['com.apple.quicktime.make'] ?? tags['©mak'];
+  const model = tags['com.apple.quicktime.model'] ?? tags['©mod'];
+  const software = tags['com.apple.quicktime.software'] ?? tags['©swr'];
+  const created = parseCreationDate(tags['com.apple.quicktime.creationdate'] ?? tags['©day']);
+  const location = parseIso6709(tags['com.apple.quicktime.location.ISO6709'] ?? tags['©xyz']);
+  const contentIdentifier = tags['com.apple.quicktime.content.identifier'];
+
+  if (make) fields.Make = make;
+  if (model) fields.Model = model;
+  if (software) fields.Software = software;
+  if (contentIdentifier) fields.ContentIdentifier = contentIdentifier;
+  if (created) {
+    fields.CreateDate = created.date;
+    if (created.offset) fields.OffsetTime = created.offset;
+  }
+
+  return { ...fields, ...location };
+}
+
+// Creation time in UTC and the length of the whole movie
+function readMovieHeader(bytes: Uint8Array, moov: Box): Record<string, unknown> {
+  const mvhd = findBox(bytes, moov, ['mvhd']);
+  if (!mvhd) return {};
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const longForm = bytes[mvhd.start] === 1;
+  const created = longForm ? Number(view.getBigUint64(mvhd.start + 4)) : view.getUint32(mvhd.start + 4);
+  const timescale = view.getUint32(mvhd.start + (longForm ? 20 : 12));
+  const duration = longForm ? Number(view.getBigUint64(mvhd.start + 24)) : view.getUint32(mvhd.start + 16);
+
+  const fields: Record<string, unknown> = {};
+  // Cameras without a clock write zero
+  if (created > QUICKTIME_EPOCH_OFFSET) {
+    fields.CreateDate = new Date((created - QUICKTIME_EPOCH_OFFSET) * 1000);
+  }
+  if (timescale && duration) {
+    fields.Duration = roundTo(duration / timescale, 3);
+  }
+  return fields;
+}
+
+// Frame size from tkhd, frame rate from the sample count over the media duration
+function readVideoTrack(bytes: Uint8Array, moov: Box): Record<string, unknown> {
+  const track = readBoxes(bytes, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(bytes, trak, ['mdia', 'hdlr']);
+      return hdlr && String.fromCharCode(...bytes.subarray(hdlr.start + 8, hdlr.start + 12)) === 'vide';
+    });
+  if (!track) return {};
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fields: Record<string, unknown> = {};
+
+  const tkhd = findBox(bytes, track, ['tkhd']);
+  if (tkhd) {
+    // 16.16 fixed point values at the end of the box
+    fields.ImageWidth = view.getUint32(tkhd.end - 8) >>> 16;
+    fields.ImageHeight = view.getUint32(tkhd.end - 4) >>> 16;
+  }
+
+  const mdhd = findBox(bytes, track, ['mdia', 'mdhd']);
+  const stts = findBox(bytes, track, ['mdia', 'minf', 'stbl', 'stts']);
+  if (mdhd && stts) {
+    const longForm = bytes[mdhd.start] === 1;
+    const timescale = view.getUint32(mdhd.start + (longForm ? 20 : 12));
+    const duration = longForm ? Number(view.getBigUint64(mdhd.start + 24)) : view.getUint32(mdhd.start + 16);
+
+    let frames = 0;
+    const entries = view.getUint32(stts.start + 4);
+    for (let i = 0; i < entries && stts.start + 16 + i * 8 <= stts.end; i++) {
+      frames += view.getUint32(stts.start + 8 + i * 8);
+    }
+
+    if (timescale && duration && frames) {
+      fields.VideoFrameRate = roundTo(frames / (duration / timescale), 3);
+    }
+  }
+
+  return fields;
+}
+
+// QuickTime ©mak/©mod/©day/©xyz atoms, or the same names in an MP4 udta/meta/ilst
+function readUserData(bytes: Uint8Array, moov: Box): Record<string, string> {
+  const udta = findBox(bytes, moov, ['udta']);
+  if (!udta) return {};
+
+  const tags: Record<string, string> = {};
+  readBoxes(bytes, udta.start, udta.end)
+    .filter(box => box.type.startsWith('©'))
+    .forEach(box => {
+      const value = readDataBox(bytes, box) ?? readQuickTimeText(bytes, box);
+      if (value) tags[box.type] = value;
+    });
+
+  const meta = readBoxes(bytes, udta.start, udta.end).find(box => box.type === 'meta');
+  const ilst = meta ? findBox(bytes, skipFullBoxHeader(bytes, meta), ['ilst']) : null;
+  if (ilst) {
+    readBoxes(bytes, ilst.start, ilst.end).forEach(box => {
+      const value = readDataBox(bytes, box);
+      if (value && !tags[box.type]) tags[box.type] = value;
+    });
+  }
+
+  return tags;
+}
+
+// Apple's keyed metadata: keys lists the names, ilst holds the values by 1-based index
+function readMetadataKeys(bytes: Uint8Array, moov: Box): Record<string, string> {
+  const meta = readBoxes(bytes, moov.start, moov.end).find(box => box.type === 'meta');
+  if (!meta) return {};
+
+  const content = skipFullBoxHeader(bytes, meta);
+  const keys = findBox(bytes, content, ['keys']);
+  const ilst = findBox(bytes, content, ['ilst']);
+  if (!keys || !ilst) return {};
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const names: string[] = [];
+  let offset = keys.start + 8;
+
+  while (offset + 8 <= keys.end) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > keys.end) break;
+    names.push(new TextDecoder().decode(bytes.subarray(offset + 8, offset + size)));
+    offset += size;
+  }
+
+  const tags: Record<string, string> = {};
+  readBoxes(bytes, ilst.start, ilst.end).forEach(item => {
+    const index = [...item.type].reduce((total, char) => total * 256 + char.charCodeAt(0), 0);
+    const name = names[index - 1];
+    const value = readDataBox(bytes, item);
+    if (name && value) tags[name] = value;
+  });
+
+  return tags;
+}
+
+// A data box holds a 4-byte type, a 4-byte locale and then the value
+function readDataBox(bytes: Uint8Array, item: Box): string | null {
+  const data = readBoxes(bytes, item.start, item.end).find(box => box.type === 'data');
+  if (!data || data.end - data.start < 8) return null;
+
+  return new TextDecoder().decode(bytes.subarray(data.start + 8, data.end)).replace(/\0+$/, '').trim() || null;
+}
+
+// QuickTime text atoms start with a 2-byte length and a 2-byte language code
+function readQuickTimeText(bytes: Uint8Array, atom: Box): string | null {
+  if (atom.end - atom.start < 4) return null;
+
+  const length = (bytes[atom.start] << 8) | bytes[atom.start + 1];
+  const end = Math.min(atom.start + 4 + length, atom.end);
+  return new TextDecoder().decode(bytes.subarray(atom.start + 4, end)).replace(/\0+$/, '').trim() || null;
+}
+
+// The MP4 meta box carries a version and flags before its children; QuickTime's does not
+function skipFullBoxHeader(bytes: Uint8Array, meta: Box): Box {
+  const hasHeader = bytes[meta.start] === 0 && bytes[meta.start + 1] === 0 &&
+    bytes[meta.start + 2] === 0 && bytes[meta.start + 3] === 0;
+  return hasHeader ? { ...meta, start: meta.start + 4 } : meta;
+}
+
+/**
+ * "2024-06-01T14:05:09+0200" keeps its wall-clock time, as still photos do, with the offset
+ * alongside; "Z" times are instants and a bare time is taken as local
+ */
+function parseCreationDate(value: string | undefined): { date: Date; offset: string | null } | null {
+  const match = value && /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(Z|([+-])(\d{2}):?(\d{2}))?/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, zone, sign, offsetHours, offsetMinutes] = match;
+  if (zone === 'Z') {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), offset: null };
+  }
+
+  const date = new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  if (isNaN(date.getTime())) return null;
+  return { date, offset: sign ? `${sign}${offsetHours}:${offsetMinutes}` : null };
+}
+
+// "+52.5000-001.2500+010.000/" is latitude, longitude and an optional altitude
+function parseIso6709(value: string | undefined): Record<string, number> {
+  const match = value && /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/.exec(value);
+  if (!match) return {};
+
+  const [, latitude, longitude, altitude] = match;
+  return {
+    GPSLatitude: parseFloat(latitude),
+    GPSLongitude: parseFloat(longitude),
+    ...(altitude ? { GPSAltitude: parseFloat(altitude) } : {})
+  };
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
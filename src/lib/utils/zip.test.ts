@@ -0,0 +1,138 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import type { RenameOptions } from '../types/template';
+import { makeFile, makePhoto } from './__fixtures__/photos';
+import { previewPhotos } from './rename';
+import { createPhotoZip } from './zip';
+
+async function getEntryNames(blob: Blob): Promise<string[]> {
+  return Object.keys(unzipSync(new Uint8Array(await blob.arrayBuffer())));
+}
+
+// Entry name → name of the file written there
+async function getEntrySources(blob: Blob): Promise<Record<string, string>> {
+  const entries = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+  return Object.fromEntries(Object.entries(entries).map(([name, data]) => [name, strFromU8(data)]));
+}
+
+describe('createPhotoZip', () => {
+  it('writes the names the preview shows', async () => {
+    const day = new Date(2024, 5, 1, 10, 0, 0);
+    const photos = [
+      makePhoto('IMG_0001.jpg', { exif: { dateTaken: day } }),
+      makePhoto('IMG_0002.jpg', { exif: { dateTaken: day } }),
+      makePhoto('scan.png')
+    ];
+    const template = '{date}';
+
+    const preview = previewPhotos(photos, template).map(result => result.renamed);
+    const zip = await createPhotoZip(photos, template, {});
+
+    expect(preview).toEqual(['20240601.jpg', '20240601_1.jpg', '20240101.png']);
+    expect((await getEntryNames(zip.blob)).sort()).toEqual([...preview].sort());
+  });
+
+  it('writes the names the preview shows with variables, rules and replace rules', async () => {
+    const day = new Date(2024, 5, 1, 10, 0, 0);
+    const photos = [
+      makePhoto('IMG_0010.jpg', { exif: { dateTaken: day } }),
+      makePhoto('IMG_0002.jpg', { exif: { dateTaken: day } }),
+      makePhoto('IMG_0003.jpg', { exif: { dateTaken: day }, variables: { client: 'Jones' } }),
+      makePhoto('scan.png')
+    ];
+    const template = '{date}_{var:client}';
+    const options: RenameOptions = {
+      conflictResolution: 'suffix',
+      conflictSuffix: '-a',
+      customValues: { client: 'Smith' },
+      templateRules: [{
+        rule: { id: 'scans', name: 'Scans', condition: { fileTypes: ['png'] }, presetId: 'scan' },
+        template: '{original}_{counter}'
+      }],
+      replaceRules: [{ find: 'scan', replace: 'Scan' }],
+      sortOrder: 'filename'
+    };
+
+    const preview = previewPhotos(photos, template, options).map(result => result.renamed);
+    const zip = await createPhotoZip(photos, template, options);
+
+    expect(preview).toEqual(['20240601_Smith-a.jpg', '20240601_Smith.jpg', '20240601_Jones.jpg', 'Scan_004.png']);
+    expect((await getEntryNames(zip.blob)).sort()).toEqual([...preview].sort());
+  });
+
+  it('gives a companion and a photo of the same name separate entries', async () => {
+    const day = { dateTaken: new Date(2024, 0, 1, 9, 0, 0) };
+    const photos = [
+      makePhoto('IMG1.jpg', { exif: day, companions: [makeFile('IMG1.CR2')] }),
+      makePhoto('IMG2.CR2', { exif: day })
+    ];
+    const zip = await createPhotoZip(photos, '{date}', { sortOrder: 'filename' });
+
+    expect((await getEntryNames(zip.blob)).sort()).toEqual(['20240101.CR2', '20240101.jpg', '20240101_1.CR2']);
+  });
+
+  it('gives sidecars that would share a name separate entries', async () => {
+    const day = { dateTaken: new Date(2024, 0, 1, 9, 0, 0) };
+    const photos = [
+      makePhoto('IMG1.jpg', { exif: day, sidecars: [makeFile('IMG1.xmp')] }),
+      makePhoto('IMG2.heic', { exif: day, sidecars: [makeFile('IMG2.xmp')] })
+    ];
+    const zip = await createPhotoZip(photos, '{date}', { sortOrder: 'filename' });
+
+    expect((await getEntryNames(zip.blob)).sort()).toEqual([
+      '20240101.jpg',
+      '20240101.xmp',
+      '20240101_1.heic',
+      '20240101_1.xmp'
+    ]);
+  });
+
+  it('drops only the files a later photo replaces when overwriting', async () => {
+    const day = { dateTaken: new Date(2024, 0, 1, 9, 0, 0) };
+    const photos = [
+      makePhoto('A.jpg', { exif: day, companions: [makeFile('A.CR2')], sidecars: [makeFile('A.xmp')] }),
+      makePhoto('B.jpg', { exif: day }),
+      makePhoto('C.CR2', { exif: day })
+    ];
+    const zip = await createPhotoZip(photos, '{date}', { conflictResolution: 'overwrite', sortOrder: 'filename' });
+
+    expect(await getEntrySources(zip.blob)).toEqual({
+      '20240101.jpg': 'B.jpg',
+      '20240101.CR2': 'C.CR2',
+      '20240101.xmp': 'A.xmp'
+    });
+  });
+
+  it('keeps a photo whose companion alone is replaced when overwriting', async () => {
+    const day = { dateTaken: new Date(2024, 0, 1, 9, 0, 0) };
+    const photos = [
+      makePhoto('A.jpg', { exif: day, companions: [makeFile('A.CR2')] }),
+      makePhoto('C.CR2', { exif: day })
+    ];
+    const zip = await createPhotoZip(photos, '{date}', { conflictResolution: 'overwrite', sortOrder: 'filename' });
+
+    expect(await getEntrySources(zip.blob)).toEqual({ '20240101.jpg': 'A.jpg', '20240101.CR2': 'C.CR2' });
+  });
+
+  it('keeps the folders of dropped photos when asked', async () => {
+    const photos = [makePhoto('IMG_0001.jpg', { relativePath: 'Day1/IMG_0001.jpg' })];
+    const zip = await createPhotoZip(photos, 'Trip_{counter}', {}, {
+      folders: new Map([[photos[0].file, 'Day1']])
+    });
+
+    expect(await getEntryNames(zip.blob)).toEqual(['Day1/Trip_001.jpg']);
+  });
+
+  it('lets files in different kept folders share a name', async () => {
+    const photos = [
+      makePhoto('IMG_0001.jpg', { relativePath: 'Day1/IMG_0001.jpg' }),
+      makePhoto('IMG_0001.jpg', { relativePath: 'Day2/IMG_0001.jpg' })
+    ];
+    const folders = new Map([[photos[0].file, 'Day1'], [photos[1].file, 'Day2']]);
+    const zip = await createPhotoZip(photos, '{original}', { keepFolders: true }, { folders });
+
+    expect(previewPhotos(photos, '{original}', { keepFolders: true }).map(result => result.renamed))
+      .toEqual(['IMG_0001.jpg', 'IMG_0001.jpg']);
+    expect((await getEntryNames(zip.blob)).sort()).toEqual(['Day1/IMG_0001.jpg', 'Day2/IMG_0001.jpg']);
+  });
+});
@@ -1,10 +1,14 @@
 import { zip, zipSync, strToU8, type ZipInputFile, type Zippable, type AsyncZippable, Zip as FflateZip, ZipDeflate, ZipPassThrough } from 'fflate';
-import type { RenameResult } from '../types/template';
+import type { Photo } from '../types/photo';
+import type { RenameOptions, RenameResult } from '../types/template';
+import { getExportFiles } from './pairing';
+import { renamePhotos } from './rename';
 
 export interface ZipOptions {
   compressionLevel?: number;
   includeMetadata?: boolean;
   folderName?: string;
+  folders?: Map<File, string>; // Folder inside the archive per file, to keep a dropped folder's structure
   onProgress?: (current: number, total: number, filename: string) => void;
 }
 
@@ -49,11 +53,10 @@ export async function createZipAsync(
 
   for (const file of files) {
     const renameResult = renameMap.get(file);
-    if (!renameResult) continue;
+    // Overwritten files give their name to a later file in the batch
+    if (!renameResult || renameResult.metadata?.overwritten) continue;
 
-    const filename = folderName
-      ? `${folderName}/${renameResult.filename}`
-      : renameResult.filename;
+    const filename = getEntryName(file, renameResult.filename, folderName, options.folders);
 
     const arrayBuffer = await file.arrayBuffer();
     const uint8Array = new Uint8Array(arrayBuffer);
@@ -126,11 +129,10 @@ export async function createZipSync(
 
   for (const file of files) {
     const renameResult = renameMap.get(file);
-    if (!renameResult) continue;
+    // Overwritten files give their name to a later file in the batch
+    if (!renameResult || renameResult.metadata?.overwritten) continue;
 
-    const filename = folderName
-      ? `${folderName}/${renameResult.filename}`
-      : renameResult.filename;
+    const filename = getEntryName(file, renameResult.filename, folderName, options.folders);
 
     const arrayBuffer = await file.arrayBuffer();
     const uint8Array = new Uint8Array(arrayBuffer);
@@ -194,6 +196,28 @@ export async function createZip(
   return createZipSync(files, renameMap, options);
 }
 
+/**
+ * Rename photos and pack them with their companions and sidecars
+ * Uses the same pipeline as the file list preview, so the archive matches what was shown
+ *
+ * @param photos - Photos to export, in any order
+ * @param template - Batch template
+ * @param renameOptions - The options the preview was rendered with
+ * @param options - ZIP creation options
+ * @returns Promise resolving to ZipResult with blob and metadata
+ */
+export async function createPhotoZip(
+  photos: Photo[],
+  template: string,
+  renameOptions: RenameOptions,
+  options: ZipOptions = {}
+): Promise<ZipResult> {
+  const { results } = renamePhotos(photos, template, renameOptions);
+  const renameMap = getExportFiles(photos, results);
+
+  return createZip(Array.from(renameMap.keys()), renameMap, options);
+}
+
 export async function createZipStream(
   files: File[],
   renameMap: Map<File, RenameResult>,
@@ -234,6 +258,7 @@ export async function createZipStream(
     processFilesStreaming(files, renameMap, zipStream, {
       compressionLevel,
       folderName,
+      folders: options.folders,
       onProgress
     }).catch(reject);
   });
@@ -246,6 +271,7 @@ async function processFilesStreaming(
   options: {
     compressionLevel: number;
     folderName: string;
+    folders?: Map<File, string>;
     onProgress?: (current: number, total: number, filename: string) => void;
   }
 ): Promise<void> {
@@ -253,11 +279,10 @@ async function processFilesStreaming(
 
   for (const file of files) {
     const renameResult = renameMap.get(file);
-    if (!renameResult) continue;
+    // Overwritten files give their name to a later file in the batch
+    if (!renameResult || renameResult.metadata?.overwritten) continue;
 
-    const filename = options.folderName
-      ? `${options.folderName}/${renameResult.filename}`
-      : renameResult.filename;
+    const filename = getEntryName(file, renameResult.filename, options.folderName, options.folders);
 
     const ext = getFileExtension(file.name);
     const shouldCompress = !INCOMPRESSIBLE_TYPES.has(ext);
@@ -335,6 +360,15 @@ function generateMetadataFile(
   return lines.join('\n');
 }
 
+function getEntryName(
+  file: File,
+  filename: string,
+  folderName: string,
+  folders?: Map<File, string>
+): string {
+  return [folderName, folders?.get(file), filename].filter(Boolean).join('/');
+}
+
 function generateZipFilename(folderName?: string): string {
   const date = new Date();
   const dateStr = date.toISOString().split('T')[0];